@@ -0,0 +1,200 @@
+// src/api.ts
+// HTTP routes under /api. Callers are identified like sockets: the signed
+// st_clientId/st_clientSig cookies (or x-client-id/x-client-sig in dev).
+// Mutations go through the same commands as the central:* socket events, so
+// sockets in the room see REST changes the same way; errors keep their E_*
+// code ({ ok: false, error: { code } }) with a matching HTTP status.
+//
+// CSRF: the cookies go along with cross-site form posts too, so state-changing
+// requests must be JSON or carry x-client-sig; either needs a CORS preflight,
+// which only CORS_ORIGIN passes.
+import { Router, type NextFunction, type Request, type Response } from 'express';
+import { ZodError } from 'zod';
+import { resolveClientId } from './auth.js';
+import { getRoom, scheduleRoomCleanupIfEmpty, serialize, setCentralPresence, viewFor } from './roomStore.js';
+import { isHost } from './permissions.js';
+import { auditToCsv, readAudit } from './audit.js';
+import { sessionReport } from './history.js';
+import type { RoomCommands } from './socket.js';
+import type { AuditEntry } from './types.js';
+
+const STATUS: Record<string, number> = {
+  E_INVALID_PAYLOAD: 400,
+  E_INVALID_STATION: 400,
+  E_INVALID_ROSTER: 400,
+  E_BAD_SIGNATURE: 401,
+  E_JSON_REQUIRED: 415,
+  E_NOT_CENTRAL: 403,
+  E_FORBIDDEN: 403,
+  E_ROOM_NOT_FOUND: 404,
+  E_BAD_STATE: 409,
+  E_STATIONS_IN_USE: 409,
+  E_STATION_TAKEN: 409,
+  E_STATION_LOCKED: 409,
+  E_RATE_LIMIT: 429,
+};
+
+export function httpStatus(code: string) {
+  return STATUS[code] ?? 500;
+}
+
+function sendError(res: Response, e: unknown) {
+  if (e instanceof ZodError) {
+    return res.status(400).json({ ok: false, error: { code: 'E_INVALID_PAYLOAD', issues: e.issues } });
+  }
+  const code = e instanceof Error ? e.message : '';
+  const status = httpStatus(code);
+  if (status === 500) {
+    // eslint-disable-next-line no-console
+    console.error('api error', e);
+    return res.status(500).json({ ok: false, error: { code: 'E_INTERNAL' } });
+  }
+  return res.status(status).json({ ok: false, error: { code } });
+}
+
+function clientOf(req: Request): string {
+  try {
+    return resolveClientId({ headers: req.headers });
+  } catch {
+    throw new Error('E_BAD_SIGNATURE');
+  }
+}
+
+// the room in :code when the caller is its central or a co-host
+function hostRoom(req: Request, clientId: string) {
+  const room = getRoom(req.params.code);
+  if (!room) throw new Error('E_ROOM_NOT_FOUND');
+  if (!isHost(room, clientId)) throw new Error('E_NOT_CENTRAL');
+  return room;
+}
+
+type Handler = (req: Request, res: Response, clientId: string) => unknown;
+
+function route(handler: Handler) {
+  return async (req: Request, res: Response) => {
+    try {
+      await handler(req, res, clientOf(req));
+    } catch (e) {
+      sendError(res, e);
+    }
+  };
+}
+
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+function requireJson(req: Request, res: Response, next: NextFunction) {
+  const json = /^application\/json\b/i.test(req.headers['content-type'] ?? '');
+  if (SAFE_METHODS.has(req.method) || json || req.headers['x-client-sig']) return next();
+  sendError(res, new Error('E_JSON_REQUIRED'));
+}
+
+function body(req: Request): Record<string, unknown> {
+  return req.body && typeof req.body === 'object' ? req.body : {};
+}
+
+export function createApiRouter(commands: RoomCommands) {
+  const router = Router();
+  router.use(requireJson);
+
+  router.post(
+    '/rooms',
+    route((req, res, clientId) => {
+      const { room, recoveryCode } = commands.createRoom(clientId, body(req));
+      // nobody is connected yet: central shows up once it opens a socket (client:hello)
+      setCentralPresence(room, false);
+      scheduleRoomCleanupIfEmpty(room);
+      res.status(201).json({ ok: true, room: serialize(room), recoveryCode, displayToken: room.displayToken });
+    })
+  );
+
+  router.get(
+    '/rooms/:code',
+    route((req, res, clientId) => {
+      const room = getRoom(req.params.code);
+      if (!room) throw new Error('E_ROOM_NOT_FOUND');
+      res.json({ ok: true, room: viewFor(room, clientId) });
+    })
+  );
+
+  router.put(
+    '/rooms/:code/config',
+    route((req, res, clientId) => {
+      const room = commands.updateConfig(clientId, { ...body(req), code: req.params.code });
+      res.json({ ok: true, room: serialize(room) });
+    })
+  );
+
+  // round control; start takes { force }
+  const actions = {
+    start: commands.startRound,
+    pause: commands.pauseRound,
+    resume: commands.resumeRound,
+    skip: commands.skipRound,
+    reset: commands.resetRoom,
+  };
+  for (const [action, run] of Object.entries(actions)) {
+    router.post(
+      `/rooms/:code/${action}`,
+      route((req, res, clientId) => {
+        const room = run(clientId, { ...body(req), code: req.params.code });
+        res.json({ ok: true, room: serialize(room) });
+      })
+    );
+  }
+
+  router.delete(
+    '/rooms/:code/stations/:stationId',
+    route((req, res, clientId) => {
+      const result = commands.removeStation(clientId, {
+        roomCode: req.params.code,
+        // digits only; anything else stays a string and fails validation (400)
+        stationId: /^\d+$/.test(req.params.stationId) ? Number(req.params.stationId) : req.params.stationId,
+      });
+      res.json({ ok: true, ...result });
+    })
+  );
+
+  // ?force=true deletes a RUNNING/PAUSED room
+  router.delete(
+    '/rooms/:code',
+    route((req, res, clientId) => {
+      const force = req.query.force === 'true' || body(req).force === true;
+      const report = commands.deleteRoom(clientId, { code: req.params.code, force });
+      res.json({ ok: true, report });
+    })
+  );
+
+  // ?format=csv for a spreadsheet, JSON otherwise
+  router.get(
+    '/rooms/:code/audit',
+    route(async (req, res, clientId) => {
+      const room = hostRoom(req, clientId);
+      let entries: AuditEntry[];
+      try {
+        entries = await readAudit(room.code);
+      } catch (e) {
+        // eslint-disable-next-line no-console
+        console.error(`audit ${room.code} read failed`, e);
+        res.status(500).json({ ok: false, error: { code: 'E_INTERNAL' } });
+        return;
+      }
+      if (req.query.format === 'csv') {
+        res.type('text/csv');
+        res.attachment(`audit-${room.code}.csv`);
+        res.send(auditToCsv(entries));
+        return;
+      }
+      res.json({ ok: true, code: room.code, entries });
+    })
+  );
+
+  router.get(
+    '/rooms/:code/report',
+    route((req, res, clientId) => {
+      const room = hostRoom(req, clientId);
+      res.json({ ok: true, report: sessionReport(room) });
+    })
+  );
+
+  return router;
+}
@@ -0,0 +1,57 @@
+// src/audit.ts
+// Append-only event log per room ("who skipped round 3?"). Capped in memory;
+// with a store configured entries go to the room's redis list instead, which
+// is what exports read (it holds every instance's entries).
+import type { AuditEntry } from './types.js';
+import type { RedisStore } from './redisStore.js';
+
+export const AUDIT_MAX = 1000;
+export const SYSTEM_ACTOR = 'system';
+
+const logs = new Map<string, AuditEntry[]>();
+let store: RedisStore | undefined;
+
+export function setAuditStore(s: RedisStore | undefined) {
+  store = s;
+}
+
+export function audit(code: string, actor: string, type: string, data?: Record<string, unknown>) {
+  const entry: AuditEntry = { at: Date.now(), type, actor };
+  if (data) entry.data = data;
+  if (store) {
+    store.appendAudit(code, entry, AUDIT_MAX).catch((e) => {
+      // eslint-disable-next-line no-console
+      console.error(`audit ${code} failed`, e);
+    });
+    return;
+  }
+  let log = logs.get(code);
+  if (!log) logs.set(code, (log = []));
+  log.push(entry);
+  if (log.length > AUDIT_MAX) log.splice(0, log.length - AUDIT_MAX);
+}
+
+export async function readAudit(code: string): Promise<AuditEntry[]> {
+  if (store) return store.loadAudit(code);
+  return [...(logs.get(code) ?? [])];
+}
+
+// room deleted here or on another instance (the store drops its list together
+// with the room)
+export function dropAudit(code: string) {
+  logs.delete(code);
+}
+
+function csvField(v: unknown) {
+  const s = v == null ? '' : typeof v === 'string' ? v : JSON.stringify(v);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+// at (ISO), type, actor, data (JSON)
+export function auditToCsv(entries: AuditEntry[]) {
+  const rows = [['at', 'type', 'actor', 'data']];
+  for (const e of entries) {
+    rows.push([new Date(e.at).toISOString(), e.type, e.actor, e.data ? JSON.stringify(e.data) : '']);
+  }
+  return rows.map((r) => r.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
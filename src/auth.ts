@@ -0,0 +1,108 @@
+// src/auth.ts
+// Signed client identity: /api/hello issues st_clientId + HMAC st_clientSig,
+// the socket handshake (and HTTP routes) only trust ids whose signature verifies.
+import crypto from 'node:crypto';
+
+const SIGNING_SECRET: string = process.env.SIGNING_SECRET || 'dev-secret';
+// rotation: the old secret keeps verifying until SIGNING_SECRET_PREVIOUS_UNTIL
+// (ISO date or epoch ms), which is required with it: a default window would
+// open again on every restart
+const SIGNING_SECRET_PREVIOUS: string | undefined = process.env.SIGNING_SECRET_PREVIOUS;
+const SIGNING_SECRET_PREVIOUS_UNTIL: number = SIGNING_SECRET_PREVIOUS
+  ? parseUntil(process.env.SIGNING_SECRET_PREVIOUS_UNTIL)
+  : 0;
+
+export const CLIENT_ID_COOKIE = 'st_clientId';
+export const CLIENT_SIG_COOKIE = 'st_clientSig';
+
+// a typo or a missing date must not keep the old secret alive: refuse to start instead
+export function parseUntil(v: string | undefined): number {
+  if (!v) throw new Error('SIGNING_SECRET_PREVIOUS_UNTIL is required with SIGNING_SECRET_PREVIOUS');
+  const n = /^\d+$/.test(v) ? Number(v) : Date.parse(v);
+  if (!Number.isFinite(n)) throw new Error(`SIGNING_SECRET_PREVIOUS_UNTIL is not a date: ${v}`);
+  return n;
+}
+
+function hmac(secret: string, id: string): string {
+  return crypto.createHmac('sha256', secret).update(id).digest('hex');
+}
+
+// always signs with the current secret
+export function signClientId(id: string): string {
+  return hmac(SIGNING_SECRET, id);
+}
+
+function acceptedSecrets(now = Date.now()): string[] {
+  const out = [SIGNING_SECRET];
+  if (SIGNING_SECRET_PREVIOUS && now < SIGNING_SECRET_PREVIOUS_UNTIL) out.push(SIGNING_SECRET_PREVIOUS);
+  return out;
+}
+
+function safeEqualHex(a: string, b: string): boolean {
+  const ba = Buffer.from(a, 'hex');
+  const bb = Buffer.from(b, 'hex');
+  if (ba.length === 0 || ba.length !== bb.length) return false;
+  return crypto.timingSafeEqual(ba, bb);
+}
+
+export function verifyClientSig(id: string, sig: string): boolean {
+  if (!id || !sig) return false;
+  // evaluate every secret so timing doesn't reveal which one matched
+  let ok = false;
+  for (const secret of acceptedSecrets()) {
+    if (safeEqualHex(hmac(secret, id), sig)) ok = true;
+  }
+  return ok;
+}
+
+export function parseCookies(header: string | undefined): Record<string, string> {
+  const out: Record<string, string> = {};
+  if (!header) return out;
+  for (const part of header.split(';')) {
+    const i = part.indexOf('=');
+    if (i < 0) continue;
+    const k = part.slice(0, i).trim();
+    if (!k || k in out) continue;
+    try {
+      out[k] = decodeURIComponent(part.slice(i + 1).trim());
+    } catch {
+      out[k] = part.slice(i + 1).trim();
+    }
+  }
+  return out;
+}
+
+function firstHeader(v: string | string[] | undefined): string | undefined {
+  return typeof v === 'string' ? v : Array.isArray(v) ? v[0] : undefined;
+}
+
+interface HandshakeLike {
+  auth?: Record<string, unknown>;
+  headers: Record<string, string | string[] | undefined>;
+}
+
+// auth payload first, then cookies, then x-client-id/x-client-sig headers (dev)
+// throws E_INVALID_PAYLOAD when no id is presented, E_BAD_SIGNATURE when it doesn't verify
+export function resolveClientId(handshake: HandshakeLike): string {
+  const auth = handshake.auth ?? {};
+  const cookies = parseCookies(firstHeader(handshake.headers.cookie));
+
+  let clientId: unknown = auth.clientId;
+  let clientSig: unknown = auth.clientSig;
+  if (!clientId && cookies[CLIENT_ID_COOKIE]) {
+    clientId = cookies[CLIENT_ID_COOKIE];
+    clientSig = cookies[CLIENT_SIG_COOKIE];
+  }
+  if (!clientId) {
+    clientId = firstHeader(handshake.headers['x-client-id']);
+    clientSig = firstHeader(handshake.headers['x-client-sig']);
+  }
+  // id from auth/header but signature only in the cookie
+  if (!clientSig && clientId === cookies[CLIENT_ID_COOKIE]) clientSig = cookies[CLIENT_SIG_COOKIE];
+
+  if (!clientId || typeof clientId !== 'string') throw new Error('E_INVALID_PAYLOAD');
+  if (typeof clientSig !== 'string' || !verifyClientSig(clientId, clientSig)) {
+    throw new Error('E_BAD_SIGNATURE');
+  }
+  return clientId;
+}
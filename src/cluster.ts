@@ -0,0 +1,142 @@
+// src/cluster.ts
+// Multi-instance support: room state replication over redis pub/sub and a
+// per-room lease so exactly one instance drives the ticking loop.
+import crypto from 'node:crypto';
+import type { Redis } from 'ioredis';
+import type { Room } from './types.js';
+import { SYNC_CHANNEL, type RedisStore, type SyncMessage } from './redisStore.js';
+import { applyRemoteRoom, dropRemoteRoom, listRooms, needsTicker } from './roomStore.js';
+
+export const INSTANCE_ID = crypto.randomUUID();
+
+const LEASE_PREFIX = 'lease:room:';
+const INSTANCE_PREFIX = 'instance:';
+const LEASE_MS = 6000;
+const RENEW_MS = 2000;
+
+// acquire when free, extend when already ours
+const ACQUIRE_LUA = `
+local cur = redis.call('GET', KEYS[1])
+if not cur then
+  redis.call('SET', KEYS[1], ARGV[1], 'PX', ARGV[2])
+  return 1
+end
+if cur == ARGV[1] then
+  redis.call('PEXPIRE', KEYS[1], ARGV[2])
+  return 1
+end
+return 0`;
+
+const RELEASE_LUA = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0`;
+
+type SyncListener = (code: string, room: Room | undefined) => void;
+
+export class Cluster {
+  private driving = new Set<string>();
+  private listener?: SyncListener;
+  private renewTimer?: NodeJS.Timeout;
+
+  constructor(private redis: Redis, private store: RedisStore) {}
+
+  // called with the merged room (or undefined when deleted) after each remote change
+  onRoomSynced(fn: SyncListener) {
+    this.listener = fn;
+  }
+
+  // another live instance exists (its heartbeat key hasn't expired)
+  async hasPeers() {
+    let cursor = '0';
+    do {
+      const [next, keys] = await this.redis.scan(cursor, 'MATCH', `${INSTANCE_PREFIX}*`, 'COUNT', 100);
+      if (keys.some((k) => k !== INSTANCE_PREFIX + INSTANCE_ID)) return true;
+      cursor = next;
+    } while (cursor !== '0');
+    return false;
+  }
+
+  async start() {
+    const sub = this.redis.duplicate();
+    sub.on('message', (_channel: string, raw: string) => {
+      void this.handleSync(raw);
+    });
+    await sub.subscribe(SYNC_CHANNEL);
+    await this.heartbeat();
+    this.renewTimer = setInterval(() => {
+      void this.heartbeat();
+      void this.renewLeases();
+    }, RENEW_MS);
+  }
+
+  stop() {
+    if (this.renewTimer) clearInterval(this.renewTimer);
+    this.renewTimer = undefined;
+  }
+
+  // true when this instance currently holds the room's lease
+  isDriver(code: string) {
+    return this.driving.has(code);
+  }
+
+  // try to take the lease right away (e.g. the instance that just started the round)
+  async claim(code: string) {
+    const ok = await this.redis.eval(ACQUIRE_LUA, 1, LEASE_PREFIX + code, INSTANCE_ID, LEASE_MS);
+    if (ok === 1) this.driving.add(code);
+    else this.driving.delete(code);
+    return ok === 1;
+  }
+
+  async release(code: string) {
+    this.driving.delete(code);
+    await this.redis.eval(RELEASE_LUA, 1, LEASE_PREFIX + code, INSTANCE_ID);
+  }
+
+  private async handleSync(raw: string) {
+    let msg: SyncMessage;
+    try {
+      msg = JSON.parse(raw) as SyncMessage;
+    } catch {
+      return;
+    }
+    if (msg.origin === INSTANCE_ID) return;
+    try {
+      const loaded = msg.deleted ? null : await this.store.loadRoom(msg.code);
+      if (!loaded) {
+        dropRemoteRoom(msg.code);
+        this.driving.delete(msg.code);
+        this.listener?.(msg.code, undefined);
+        return;
+      }
+      this.listener?.(msg.code, applyRemoteRoom(loaded));
+    } catch (e) {
+      // eslint-disable-next-line no-console
+      console.error(`sync ${msg.code} failed`, e);
+    }
+  }
+
+  private async heartbeat() {
+    try {
+      await this.redis.set(INSTANCE_PREFIX + INSTANCE_ID, '1', 'PX', LEASE_MS);
+    } catch (e) {
+      // eslint-disable-next-line no-console
+      console.error('heartbeat failed', e);
+    }
+  }
+
+  // RUNNING/changeover rooms: keep/take the lease (takeover when the owner died)
+  // anything else: give the lease back
+  private async renewLeases() {
+    try {
+      for (const room of listRooms()) {
+        if (needsTicker(room)) await this.claim(room.code);
+        else if (this.driving.has(room.code)) await this.release(room.code);
+      }
+    } catch (e) {
+      // eslint-disable-next-line no-console
+      console.error('lease renew failed', e);
+    }
+  }
+}
@@ -0,0 +1,77 @@
+// src/history.ts
+// Finished rounds and the session report built from them. A round is recorded
+// once, when it ends for whatever reason (time up, skip, reset while running,
+// room force-deleted); the record lives on the room so it persists with it.
+import type { Room, RoundEndReason, RoundRecord, RoundStationRecord } from './types.js';
+import { rotationFor } from './roster.js';
+
+export const HISTORY_MAX = 200;
+
+// call whenever a round stops for good; no-op when none is in progress
+export function recordRound(room: Room, endReason: RoundEndReason, at = Date.now()) {
+  const startedAt = room.roundStartedAt;
+  if (startedAt == null) return undefined;
+  room.roundStartedAt = undefined;
+
+  const pausedMs = (room.pausedTotalMs ?? 0) + (room.pausedAt != null ? at - room.pausedAt : 0);
+  const rotation = rotationFor(room, room.rotationRound ?? 1);
+  const stations: RoundStationRecord[] = [];
+  for (let id = 1; id <= room.stationsCount; id++) {
+    const slot = room.stations.get(id);
+    if (!slot || slot.inactive) continue;
+    const s: RoundStationRecord = { stationId: id };
+    if (slot.ownerClientId) s.clientId = slot.ownerClientId;
+    const candidate = rotation?.stations[id - 1]?.candidate;
+    if (candidate) s.candidateId = candidate.id;
+    if (slot.readyAt != null) s.readyAt = slot.readyAt;
+    stations.push(s);
+  }
+
+  const history = (room.history ??= []);
+  const record: RoundRecord = {
+    round: (history[history.length - 1]?.round ?? 0) + 1,
+    startedAt,
+    endedAt: at,
+    plannedSec: room.roundDurationSec,
+    adjustedSec: room.adjustedSec ?? 0,
+    actualSec: Math.max(0, Math.round((at - startedAt - pausedMs) / 1000)),
+    pausedSec: Math.round(pausedMs / 1000),
+    endReason,
+    stations,
+  };
+  if (room.session && room.currentRound != null) record.sessionRound = room.currentRound;
+  history.push(record);
+  if (history.length > HISTORY_MAX) history.splice(0, history.length - HISTORY_MAX);
+  return record;
+}
+
+export interface SessionReport {
+  code: string;
+  rounds: RoundRecord[];
+  totals: {
+    rounds: number;
+    plannedSec: number;
+    actualSec: number;
+    pausedSec: number;
+    endReasons: Partial<Record<RoundEndReason, number>>;
+  };
+}
+
+// every recorded round plus totals over all of them
+export function sessionReport(room: Room): SessionReport {
+  const rounds = [...(room.history ?? [])];
+  const totals: SessionReport['totals'] = {
+    rounds: rounds.length,
+    plannedSec: 0,
+    actualSec: 0,
+    pausedSec: 0,
+    endReasons: {},
+  };
+  for (const r of rounds) {
+    totals.plannedSec += r.plannedSec;
+    totals.actualSec += r.actualSec;
+    totals.pausedSec += r.pausedSec;
+    totals.endReasons[r.endReason] = (totals.endReasons[r.endReason] ?? 0) + 1;
+  }
+  return { code: room.code, rounds, totals };
+}
@@ -3,13 +3,38 @@ import http from 'http';
 import cors from 'cors';
 import cookieParser from 'cookie-parser';
 import { Server, type Socket, type ExtendedError } from 'socket.io';
+import { Redis } from 'ioredis';
+import { createAdapter } from '@socket.io/redis-adapter';
 import { bindSocket } from './socket.js';
+import { RedisStore } from './redisStore.js';
+import { Cluster, INSTANCE_ID } from './cluster.js';
+import { setRoomStore, restoreRooms } from './roomStore.js';
+import { CLIENT_ID_COOKIE, CLIENT_SIG_COOKIE, resolveClientId, signClientId, verifyClientSig } from './auth.js';
+import { setAuditStore } from './audit.js';
+import { createApiRouter } from './api.js';
+import { WebhookDispatcher } from './webhooks.js';
+import { globalWebhooksSchema } from './validators.js';
+import { METRICS_CONTENT_TYPE, renderMetrics } from './metrics.js';
 import crypto from 'node:crypto';
 
 const PORT: number = Number(process.env.PORT || 4000);
 const NODE_ENV: string = process.env.NODE_ENV || 'development';
 const CORS_ORIGIN: string = process.env.CORS_ORIGIN || 'http://localhost:5173';
-const SIGNING_SECRET: string = process.env.SIGNING_SECRET || 'dev-secret';
+// optional: persist rooms so a restart/deploy doesn't drop live sessions.
+// Also enables multi-instance mode (redis adapter + room sync + tick leases), e.g.
+//   PORT=4000 REDIS_URL=redis://localhost:6379 npm start
+//   PORT=4001 REDIS_URL=redis://localhost:6379 npm start
+const REDIS_URL: string | undefined = process.env.REDIS_URL;
+// optional: hooks that get every room's lifecycle events, e.g.
+//   WEBHOOKS='[{"url":"https://lms.example/hooks/timer","secret":"...","events":["round.started"]}]'
+const WEBHOOKS: string | undefined = process.env.WEBHOOKS;
+// optional: hosts room webhooks may reach even though they resolve to an
+// internal address (everything internal is refused otherwise), e.g.
+//   WEBHOOK_ALLOWED_HOSTS=hooks.internal,10.0.0.5
+const WEBHOOK_ALLOWED_HOSTS: string[] = (process.env.WEBHOOK_ALLOWED_HOSTS || '')
+  .split(',')
+  .map((h) => h.trim())
+  .filter(Boolean);
 
 const app = express();
 if (NODE_ENV === 'production') app.set('trust proxy', 1);
@@ -23,39 +48,25 @@ app.use(
   })
 );
 
-function sign(id: string): string {
-  return crypto.createHmac('sha256', SIGNING_SECRET).update(id).digest('hex');
-}
+const cookieOpts = {
+  httpOnly: true,
+  sameSite: NODE_ENV === 'production' ? ('none' as const) : ('lax' as const),
+  secure: NODE_ENV === 'production',
+};
 
 app.get('/api/hello', (req: Request, res: Response) => {
-  let clientId = req.cookies?.['st_clientId'] as string | undefined;
+  let clientId = req.cookies?.[CLIENT_ID_COOKIE] as string | undefined;
+  const prevSig = req.cookies?.[CLIENT_SIG_COOKIE] as string | undefined;
 
-  if (!clientId) {
+  // only re-sign an id we issued (also upgrades sigs made with the previous secret);
+  // anything else gets a fresh identity
+  if (!clientId || !prevSig || !verifyClientSig(clientId, prevSig)) {
     clientId = crypto.randomUUID();
-    const clientSig = sign(clientId);
-
-    res.cookie('st_clientId', clientId, {
-      httpOnly: true,
-      sameSite: NODE_ENV === 'production' ? 'none' : 'lax',
-      secure: NODE_ENV === 'production',
-    });
-
-    res.cookie('st_clientSig', clientSig, {
-      httpOnly: true,
-      sameSite: NODE_ENV === 'production' ? 'none' : 'lax',
-      secure: NODE_ENV === 'production',
-    });
-
-    return res.json({ clientId, clientSig });
+    res.cookie(CLIENT_ID_COOKIE, clientId, cookieOpts);
   }
 
-  // already has clientId -> refresh signature
-  const clientSig = sign(clientId);
-  res.cookie('st_clientSig', clientSig, {
-    httpOnly: true,
-    sameSite: NODE_ENV === 'production' ? 'none' : 'lax',
-    secure: NODE_ENV === 'production',
-  });
+  const clientSig = signClientId(clientId);
+  res.cookie(CLIENT_SIG_COOKIE, clientSig, cookieOpts);
 
   return res.json({ clientId, clientSig });
 });
@@ -67,31 +78,63 @@ const io = new Server(server, {
   transports: ['websocket'], // reduce CORS edge
 });
 
-// handshake auth from cookies (via header/query fallback for dev)
+// handshake auth: signed clientId from auth payload, cookies or x-client-id/x-client-sig
 io.use((socket: Socket, next: (err?: ExtendedError) => void) => {
   try {
-    // prefer auth.clientId
-    let clientId = socket.handshake.auth?.clientId as unknown;
-
-    // fallback to header x-client-id
-    if (!clientId) {
-      const hdr = socket.handshake.headers['x-client-id'];
-      clientId = typeof hdr === 'string' ? hdr : Array.isArray(hdr) ? hdr[0] : undefined;
-    }
-
-    if (!clientId || typeof clientId !== 'string') {
-      return next(new Error('E_INVALID_PAYLOAD'));
-    }
-
-    // keep clientId on auth for downstream handlers
+    const clientId = resolveClientId(socket.handshake);
+    // keep verified clientId on auth for downstream handlers
     (socket.handshake.auth as Record<string, unknown>).clientId = clientId;
     next();
   } catch (e) {
-    next(e as ExtendedError);
+    // client sees connect_error with message/data.code (E_INVALID_PAYLOAD | E_BAD_SIGNATURE)
+    const err = e as ExtendedError;
+    err.data = { code: err.message };
+    next(err);
   }
 });
 
-bindSocket(io);
+let cluster: Cluster | undefined;
+let redis: Redis | undefined;
+if (REDIS_URL) {
+  redis = new Redis(REDIS_URL);
+  const store = new RedisStore(redis, INSTANCE_ID);
+  setRoomStore(store);
+  setAuditStore(store);
+  cluster = new Cluster(redis, store);
+  const restored = await restoreRooms(!(await cluster.hasPeers()));
+  // eslint-disable-next-line no-console
+  console.log(`restored ${restored.length} room(s) from redis`);
+
+  // cross-instance broadcast for io.to(room)
+  io.adapter(createAdapter(redis, redis.duplicate()));
+  await cluster.start();
+}
+
+// --- ops: liveness, readiness (redis reachable when persistence is on), Prometheus ---
+app.get('/healthz', (_req: Request, res: Response) => {
+  res.json({ ok: true, instance: INSTANCE_ID, uptimeSec: Math.floor(process.uptime()) });
+});
+
+app.get('/readyz', (_req: Request, res: Response) => {
+  const redisStatus = redis?.status;
+  const ready = !redis || redisStatus === 'ready';
+  res.status(ready ? 200 : 503).json({ ok: ready, redis: redisStatus ?? 'disabled' });
+});
+
+app.get('/metrics', (_req: Request, res: Response) => {
+  res.type(METRICS_CONTENT_TYPE).send(renderMetrics());
+});
+
+const webhooks = new WebhookDispatcher({
+  global: WEBHOOKS
+    ? globalWebhooksSchema.parse(JSON.parse(WEBHOOKS)).map((h, i) => ({ id: `global-${i + 1}`, ...h }))
+    : [],
+  allowedHosts: WEBHOOK_ALLOWED_HOSTS,
+});
+
+const commands = bindSocket(io, cluster, webhooks);
+// REST twin of the central:* socket commands (+ audit/report downloads)
+app.use('/api', createApiRouter(commands));
 
 server.listen(PORT, () => {
   // eslint-disable-next-line no-console
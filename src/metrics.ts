@@ -0,0 +1,152 @@
+// src/metrics.ts
+// Prometheus metrics for /metrics (text exposition format 0.0.4). Counters
+// and the histogram are updated where things happen; gauges are filled by
+// collectors right before each scrape. Label values must stay low-cardinality
+// (event names, error codes, states) — never room codes or client ids.
+
+type Labels = Record<string, string>;
+
+function escapeLabel(v: string) {
+  return v.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function labelText(labels: Labels) {
+  const parts = Object.entries(labels).map(([k, v]) => `${k}="${escapeLabel(v)}"`);
+  return parts.length ? `{${parts.join(',')}}` : '';
+}
+
+// stable key for one label combination
+function keyOf(labels: Labels) {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+abstract class Metric {
+  constructor(readonly name: string, readonly help: string, readonly type: string) {
+    registry.push(this);
+  }
+
+  abstract lines(): string[];
+
+  render() {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`, ...this.lines()].join('\n');
+  }
+}
+
+class Series extends Metric {
+  protected values = new Map<string, { labels: Labels; value: number }>();
+
+  protected add(labels: Labels, n: number) {
+    const k = keyOf(labels);
+    const cur = this.values.get(k);
+    if (cur) cur.value += n;
+    else this.values.set(k, { labels, value: n });
+  }
+
+  get(labels: Labels = {}) {
+    return this.values.get(keyOf(labels))?.value ?? 0;
+  }
+
+  lines() {
+    return [...this.values.values()].map(({ labels, value }) => `${this.name}${labelText(labels)} ${value}`);
+  }
+}
+
+export class Counter extends Series {
+  constructor(name: string, help: string) {
+    super(name, help, 'counter');
+  }
+
+  inc(labels: Labels = {}, n = 1) {
+    this.add(labels, n);
+  }
+}
+
+export class Gauge extends Series {
+  constructor(name: string, help: string) {
+    super(name, help, 'gauge');
+  }
+
+  set(labels: Labels, value: number) {
+    this.values.set(keyOf(labels), { labels, value });
+  }
+
+  reset() {
+    this.values.clear();
+  }
+}
+
+export class Histogram extends Metric {
+  private counts: number[];
+  private sum = 0;
+  private count = 0;
+
+  // buckets: upper bounds, ascending (+Inf is implied)
+  constructor(name: string, help: string, private buckets: number[]) {
+    super(name, help, 'histogram');
+    this.counts = buckets.map(() => 0);
+  }
+
+  observe(value: number) {
+    this.sum += value;
+    this.count++;
+    this.buckets.forEach((le, i) => {
+      if (value <= le) this.counts[i]++;
+    });
+  }
+
+  lines() {
+    return [
+      ...this.buckets.map((le, i) => `${this.name}_bucket{le="${le}"} ${this.counts[i]}`),
+      `${this.name}_bucket{le="+Inf"} ${this.count}`,
+      `${this.name}_sum ${this.sum}`,
+      `${this.name}_count ${this.count}`,
+    ];
+  }
+}
+
+const registry: Metric[] = [];
+const collectors: Array<() => void> = [];
+
+// runs before every scrape (fill gauges from live state)
+export function onCollect(fn: () => void) {
+  collectors.push(fn);
+}
+
+export function renderMetrics() {
+  for (const fn of collectors) fn();
+  return registry.map((m) => m.render()).join('\n\n') + '\n';
+}
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+// === the service's metrics ===
+
+export const roomsByState = new Gauge('station_timer_rooms', 'Rooms on this instance by state.');
+
+export const socketsByRole = new Gauge(
+  'station_timer_sockets',
+  'Connected sockets on this instance by role (none: not in a room yet).'
+);
+
+export const socketEvents = new Counter('station_timer_socket_events_total', 'Socket events handled, by event.');
+
+export const socketErrors = new Counter(
+  'station_timer_socket_errors_total',
+  'Socket events answered with an error, by event and error code.'
+);
+
+export const tickLag = new Histogram(
+  'station_timer_tick_lag_seconds',
+  'How late room clock ticks fire after their scheduled second.',
+  [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5]
+);
+
+export const rateLimited = new Counter(
+  'station_timer_rate_limit_rejections_total',
+  'Central commands rejected by the per-room rate limit.'
+);
+
+export const emptyRoomDeletions = new Counter(
+  'station_timer_empty_room_deletions_total',
+  'Rooms deleted after staying empty for the TTL.'
+);
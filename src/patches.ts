@@ -0,0 +1,171 @@
+// src/patches.ts
+// room:patch payloads: diff of a room view against the last one this instance
+// broadcast. Values are absolute, so a client holding version v applies a
+// patch when prevVersion <= v < version, ignores it when v >= version and asks
+// for room:resync when v < prevVersion (it missed something).
+//
+// Views: hosts (central + co-hosts) get the full snapshot, everyone else the
+// redacted one; a client holding a station additionally sees isYou on it.
+// Personal views are the public patch plus an isYou overlay, so a broadcast
+// costs two diffs however many stations there are.
+import type { Room } from './types.js';
+import { redactSnapshot, serialize, type PublicSnapshot, type RoomSnapshot } from './roomStore.js';
+
+type Snapshot = RoomSnapshot | PublicSnapshot;
+type StationChanges = Record<string, unknown>;
+
+// top-level key -> new value (null: cleared); stations keyed by id (null: removed)
+export interface RoomChanges {
+  [key: string]: unknown;
+  stations?: Record<number, StationChanges | null>;
+}
+
+export interface RoomPatch {
+  code: string;
+  version: number;
+  prevVersion: number;
+  changes: RoomChanges;
+}
+
+// patch undefined: nothing to diff against (send the snapshot); null: no change
+export interface ViewUpdate<S extends Snapshot = Snapshot> {
+  snapshot: S;
+  patch?: RoomPatch | null;
+}
+
+export interface RoomBroadcast {
+  public: ViewUpdate<PublicSnapshot>; // anyone not listed in `viewers`
+  viewers: Array<{ clientId: string; update: ViewUpdate }>;
+}
+
+// what a client saw last: host view, or the public view with isYou on a station
+type Seat = 'host' | number;
+
+interface Sent {
+  host: RoomSnapshot;
+  pub: PublicSnapshot;
+  seats: Map<string, Seat>;
+}
+
+// keyed by the room object: deleted rooms (TTL, central:deleteRoom) drop out with it
+const lastSent = new WeakMap<Room, Sent>();
+
+function same(a: unknown, b: unknown) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function diffFields(prev: Record<string, unknown>, next: Record<string, unknown>) {
+  const out: Record<string, unknown> = {};
+  for (const k of new Set([...Object.keys(prev), ...Object.keys(next)])) {
+    if (!same(prev[k], next[k])) out[k] = next[k] ?? null;
+  }
+  return out;
+}
+
+export function diffSnapshots(prev: Snapshot, next: Snapshot): RoomChanges {
+  const { stations: prevStations, ...prevRest } = prev;
+  const { stations: nextStations, ...nextRest } = next;
+  const changes: RoomChanges = diffFields(prevRest, nextRest);
+  delete changes.version;
+
+  const stations: Record<number, StationChanges | null> = {};
+  const before = new Map<number, StationChanges>(prevStations.map((s) => [s.id, s]));
+  for (const s of nextStations) {
+    const p = before.get(s.id);
+    before.delete(s.id);
+    if (!p) {
+      stations[s.id] = s;
+      continue;
+    }
+    const d = diffFields(p, s);
+    if (Object.keys(d).length) stations[s.id] = d;
+  }
+  for (const id of before.keys()) stations[id] = null;
+  if (Object.keys(stations).length) changes.stations = stations;
+  return changes;
+}
+
+function diffUpdate<S extends Snapshot>(code: string, prev: Snapshot | undefined, snapshot: S): ViewUpdate<S> {
+  if (!prev) return { snapshot };
+  const changes = diffSnapshots(prev, snapshot);
+  if (!Object.keys(changes).length && prev.version === snapshot.version) {
+    return { snapshot, patch: null };
+  }
+  return { snapshot, patch: { code, version: snapshot.version, prevVersion: prev.version, changes } };
+}
+
+function withYou(pub: PublicSnapshot, stationId: number): PublicSnapshot {
+  return {
+    ...pub,
+    stations: pub.stations.map((s) => (s.id === stationId ? { ...s, isYou: true } : s)),
+  };
+}
+
+// public update for a client that moved from station `before` to `seat`
+function personalUpdate(
+  pub: ViewUpdate<PublicSnapshot>,
+  before: number | undefined,
+  seat: number | undefined
+): ViewUpdate {
+  const snapshot = seat == null ? pub.snapshot : withYou(pub.snapshot, seat);
+  if (pub.patch === undefined) return { snapshot };
+  const overlay = new Map<number, boolean>();
+  if (before !== seat) {
+    if (before != null) overlay.set(before, false);
+    if (seat != null) overlay.set(seat, true);
+  }
+  if (!overlay.size) return { snapshot, patch: pub.patch };
+
+  const base = pub.patch ?? {
+    code: pub.snapshot.code,
+    version: pub.snapshot.version,
+    prevVersion: pub.snapshot.version,
+    changes: {},
+  };
+  const stations = { ...(base.changes.stations ?? {}) };
+  for (const [id, isYou] of overlay) {
+    if (stations[id] === null) continue; // removed
+    if (!pub.snapshot.stations.some((s) => s.id === id)) continue;
+    stations[id] = { ...(stations[id] ?? {}), isYou };
+  }
+  return { snapshot, patch: { ...base, changes: { ...base.changes, stations } } };
+}
+
+function seatsOf(room: Room) {
+  const seats = new Map<string, Seat>();
+  seats.set(room.centralClientId, 'host');
+  for (const id of Object.keys(room.coHosts ?? {})) seats.set(id, 'host');
+  for (const [clientId, stationId] of room.bindings) {
+    if (!seats.has(clientId)) seats.set(clientId, stationId);
+  }
+  return seats;
+}
+
+// every view of the room + patches against what this instance sent last.
+// Another instance broadcasting in between only makes prevVersion miss on the
+// client, which then resyncs.
+export function nextBroadcast(room: Room): RoomBroadcast {
+  const host = serialize(room);
+  const pub = redactSnapshot(host);
+  const seats = seatsOf(room);
+  const prev = lastSent.get(room);
+  lastSent.set(room, { host, pub, seats });
+
+  const pubUpdate = diffUpdate(room.code, prev?.pub, pub);
+  const hostUpdate = diffUpdate(room.code, prev?.host, host);
+  const viewers: RoomBroadcast['viewers'] = [];
+  // clients that lost their seat since last time still need the isYou reset
+  for (const clientId of new Set([...seats.keys(), ...(prev?.seats.keys() ?? [])])) {
+    const seat = seats.get(clientId);
+    const before = prev?.seats.get(clientId);
+    if (seat === 'host') {
+      viewers.push({ clientId, update: before === 'host' ? hostUpdate : { snapshot: host } });
+    } else if (before === 'host') {
+      // demoted: different shape, start over from a full snapshot
+      viewers.push({ clientId, update: { snapshot: seat == null ? pub : withYou(pub, seat) } });
+    } else {
+      viewers.push({ clientId, update: personalUpdate(pubUpdate, before, seat) });
+    }
+  }
+  return { public: pubUpdate, viewers };
+}
@@ -0,0 +1,52 @@
+// src/permissions.ts
+// Who may run which central:* command. The owner (room.centralClientId) may
+// run everything; co-hosts only what they were granted; stations and
+// displays nothing.
+import crypto from 'node:crypto';
+import type { CentralPermission, Room } from './types.js';
+
+export const CENTRAL_PERMISSIONS = [
+  'updateConfig',
+  'deleteRoom',
+  'removeStation',
+  'startRound',
+  'skipRound',
+  'pauseRound',
+  'resumeRound',
+  'adjustTime',
+  'resetRoom',
+  'editStations',
+  'manageStations',
+  'manageRoster',
+] as const satisfies readonly CentralPermission[];
+
+export function isOwner(room: Room, clientId: string) {
+  return room.centralClientId === clientId;
+}
+
+// owner or co-host: sees the full room (client ids), gets host-only events
+export function isHost(room: Room, clientId: string) {
+  return isOwner(room, clientId) || room.coHosts?.[clientId] != null;
+}
+
+export function can(room: Room, clientId: string, permission: CentralPermission) {
+  if (isOwner(room, clientId)) return true;
+  return room.coHosts?.[clientId]?.includes(permission) ?? false;
+}
+
+// E_NOT_CENTRAL: neither owner nor co-host / E_FORBIDDEN: co-host without that grant
+export function assertCan(room: Room, clientId: string, permission: CentralPermission) {
+  if (can(room, clientId, permission)) return;
+  throw new Error(room.coHosts?.[clientId] ? 'E_FORBIDDEN' : 'E_NOT_CENTRAL');
+}
+
+// owner-only: handover, recovery code, co-hosts, display token
+export function assertOwner(room: Room, clientId: string) {
+  if (!isOwner(room, clientId)) throw new Error('E_NOT_CENTRAL');
+}
+
+export function checkDisplayToken(room: Room, token: string) {
+  const a = Buffer.from(room.displayToken ?? '');
+  const b = Buffer.from(token);
+  return a.length > 0 && a.length === b.length && crypto.timingSafeEqual(a, b);
+}
@@ -0,0 +1,56 @@
+// src/presence.ts
+// Live sockets per room per client on this instance. A client counts as gone
+// only when its last socket left and it didn't come back within the grace
+// period, so extra tabs and reconnect-before-disconnect races don't flap.
+export const DISCONNECT_GRACE_MS = 5000;
+
+const live = new Map<string, Map<string, Set<string>>>(); // code -> clientId -> socket ids
+const graceTimers = new Map<string, NodeJS.Timeout>();
+
+const graceKey = (code: string, clientId: string) => `${code}\n${clientId}`;
+
+function cancelGrace(code: string, clientId: string) {
+  const key = graceKey(code, clientId);
+  const t = graceTimers.get(key);
+  if (t) {
+    clearTimeout(t);
+    graceTimers.delete(key);
+  }
+}
+
+// returns true when this is the client's first live socket in the room
+export function addSocket(code: string, clientId: string, socketId: string) {
+  cancelGrace(code, clientId);
+  let clients = live.get(code);
+  if (!clients) live.set(code, (clients = new Map()));
+  let ids = clients.get(clientId);
+  if (!ids) clients.set(clientId, (ids = new Set()));
+  ids.add(socketId);
+  return ids.size === 1;
+}
+
+// returns true when that was the client's last live socket in the room
+export function removeSocket(code: string, clientId: string, socketId: string) {
+  const clients = live.get(code);
+  const ids = clients?.get(clientId);
+  if (!clients || !ids?.delete(socketId)) return false;
+  if (ids.size) return false;
+  clients.delete(clientId);
+  if (!clients.size) live.delete(code);
+  return true;
+}
+
+export function liveSockets(code: string, clientId: string): string[] {
+  return Array.from(live.get(code)?.get(clientId) ?? []);
+}
+
+// run `fn` after the grace period unless the client gets a socket back first
+export function afterGrace(code: string, clientId: string, fn: () => void) {
+  cancelGrace(code, clientId);
+  const key = graceKey(code, clientId);
+  const t = setTimeout(() => {
+    graceTimers.delete(key);
+    if (!live.get(code)?.has(clientId)) fn();
+  }, DISCONNECT_GRACE_MS);
+  graceTimers.set(key, t);
+}
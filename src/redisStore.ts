@@ -1,43 +1,84 @@
 // src/redisStore.ts
 import type { Redis } from 'ioredis';
-import type { Room } from './types.js';
+import type { AuditEntry, Room, StationSlot } from './types.js';
 
 const TTL_SEC = 2 * 60 * 60; // 2 ชม.
+const KEY_PREFIX = 'rooms:';
+const AUDIT_PREFIX = 'audit:'; // list per room, newest last
+// every save/delete is announced here so other instances can refresh their copy
+export const SYNC_CHANNEL = 'sync:rooms';
+
+export interface SyncMessage {
+  origin: string;
+  code: string;
+  deleted?: boolean;
+}
+
+// compare-and-set: write only when the stored version is still the one the
+// caller last saw (0: no record), announce the save in the same step
+const SAVE_LUA = `
+local cur = redis.call('GET', KEYS[1])
+local version = 0
+if cur then
+  local ok, stored = pcall(cjson.decode, cur)
+  if ok and type(stored) == 'table' and stored.version then version = tonumber(stored.version) end
+end
+if version ~= tonumber(ARGV[1]) then return 0 end
+redis.call('SETEX', KEYS[1], ARGV[2], ARGV[3])
+redis.call('PUBLISH', ARGV[4], ARGV[5])
+return 1`;
+
+// JSON shape stored in redis: Maps flattened
+type RoomRecord = Omit<Room, 'stations' | 'bindings'> & {
+  stations: StationSlot[];
+  bindings: Array<[string, number]>;
+};
 
 export class RedisStore {
-  constructor(private redis: Redis) {}
-
-  async saveRoom(room: Room) {
-    const key = `rooms:${room.code}`;
-    const data = JSON.stringify({
-      code: room.code,
-      state: room.state,
-      stationsCount: room.stationsCount,
-      roundDurationSec: room.roundDurationSec,
-      stations: Array.from(room.stations.values()).map((s) => ({
-        id: s.id,
-        ownerClientId: s.ownerClientId,
-        ready: s.ready,
-        connected: s.connected,
-      })),
-      bindings: Array.from(room.bindings.entries()),
-    });
-    await this.redis.setex(key, TTL_SEC, data);
+  // origin: id of this process, lets subscribers skip their own messages
+  constructor(private redis: Redis, private origin = '') {}
+
+  private syncMessage(code: string, deleted?: boolean) {
+    const msg: SyncMessage = { origin: this.origin, code, deleted };
+    return JSON.stringify(msg);
+  }
+
+  // false: someone else saved a newer version since `expectedVersion`
+  async saveRoom(room: Room, expectedVersion: number) {
+    const key = `${KEY_PREFIX}${room.code}`;
+    const { stations, bindings, ...rest } = room;
+    const record: RoomRecord = {
+      ...rest,
+      stations: Array.from(stations.values()).map((s) => ({ ...s })),
+      bindings: Array.from(bindings.entries()),
+    };
+    // a running/paused round must outlive its own duration in redis
+    const active = room.state === 'RUNNING' || room.state === 'PAUSED';
+    const ttl = TTL_SEC + (active ? room.roundDurationSec : 0);
+    const ok = await this.redis.eval(
+      SAVE_LUA,
+      1,
+      key,
+      expectedVersion,
+      ttl,
+      JSON.stringify(record),
+      SYNC_CHANNEL,
+      this.syncMessage(room.code)
+    );
+    return ok === 1;
   }
 
   async loadRoom(code: string) {
-    const raw = await this.redis.get(`rooms:${code}`);
+    const raw = await this.redis.get(`${KEY_PREFIX}${code}`);
     if (!raw) return null;
     try {
-      const obj = JSON.parse(raw);
+      const obj = JSON.parse(raw) as RoomRecord;
+      const { stations, bindings, ...rest } = obj;
       const room: Room = {
-        code: obj.code,
-        centralClientId: '', // unknown after restore; will be re-bound on connect
-        state: obj.state,
-        stationsCount: obj.stationsCount,
-        roundDurationSec: obj.roundDurationSec,
-        stations: new Map(obj.stations.map((s: any) => [s.id, s])),
-        bindings: new Map(obj.bindings),
+        ...rest,
+        centralClientId: obj.centralClientId ?? '',
+        stations: new Map(stations.map((s) => [s.id, s])),
+        bindings: new Map(bindings),
       };
       return room;
     } catch {
@@ -45,7 +86,56 @@ export class RedisStore {
     }
   }
 
+  async listRoomCodes() {
+    const codes: string[] = [];
+    let cursor = '0';
+    do {
+      const [next, keys] = await this.redis.scan(cursor, 'MATCH', `${KEY_PREFIX}*`, 'COUNT', 100);
+      cursor = next;
+      for (const k of keys) codes.push(k.slice(KEY_PREFIX.length));
+    } while (cursor !== '0');
+    return codes;
+  }
+
+  async loadAllRooms() {
+    const out: Room[] = [];
+    for (const code of await this.listRoomCodes()) {
+      const room = await this.loadRoom(code);
+      if (room) out.push(room);
+    }
+    return out;
+  }
+
+  // capped append; the log lives as long as an idle room would
+  async appendAudit(code: string, entry: AuditEntry, max: number) {
+    const key = `${AUDIT_PREFIX}${code}`;
+    await this.redis
+      .multi()
+      .rpush(key, JSON.stringify(entry))
+      .ltrim(key, -max, -1)
+      .expire(key, TTL_SEC)
+      .exec();
+  }
+
+  async loadAudit(code: string): Promise<AuditEntry[]> {
+    const raw = await this.redis.lrange(`${AUDIT_PREFIX}${code}`, 0, -1);
+    const out: AuditEntry[] = [];
+    for (const line of raw) {
+      try {
+        out.push(JSON.parse(line) as AuditEntry);
+      } catch {
+        // skip a corrupt line, keep the rest
+      }
+    }
+    return out;
+  }
+
   async deleteRoom(code: string) {
-    await this.redis.del(`rooms:${code}`);
+    await this.redis
+      .multi()
+      .del(`${KEY_PREFIX}${code}`)
+      .del(`${AUDIT_PREFIX}${code}`)
+      .publish(SYNC_CHANNEL, this.syncMessage(code, true))
+      .exec();
   }
 }
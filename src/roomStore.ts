@@ -1,14 +1,208 @@
 // backend/src/roomStore.ts
-import type { Room, StationSlot } from "./types.js";
-import { genCode } from "./utils/uuid.js";
+import type {
+  Candidate,
+  CentralPermission,
+  Cue,
+  CueInput,
+  Room,
+  RoomOptions,
+  RoomRole,
+  StartPolicy,
+  StationLabel,
+  StationLabelInput,
+  StationSlot,
+  Webhook,
+  WebhookEvent,
+} from "./types.js";
+import crypto from "node:crypto";
+import type { RedisStore } from "./redisStore.js";
+import { genCode, genDisplayToken, genRecoveryCode, genWebhookSecret } from "./utils/uuid.js";
+import { isHost } from "./permissions.js";
+import { rotationFor, validateRoster } from "./roster.js";
+import { dropAudit } from "./audit.js";
+import { recordRound } from "./history.js";
+import { emptyRoomDeletions } from "./metrics.js";
 
 const rooms = new Map<string, Room>();
 
+// === optional persistence (set from index.ts when REDIS_URL is configured) ===
+let store: RedisStore | undefined;
+
+export function setRoomStore(s: RedisStore | undefined) {
+  store = s;
+}
+
+// Instances share rooms through the store, so two of them may change the same
+// room at once. A save only lands on top of the version this instance last
+// saw (synced); otherwise the stored copy is merged in (three-way, per field /
+// station slot / binding: what we changed since `synced` wins) and saved again.
+const SAVE_ATTEMPTS = 5;
+const synced = new Map<string, { version: number; fields: Map<string, string> }>();
+const saving = new Map<string, Promise<void>>(); // one save chain per room
+const mergeListeners: Array<(room: Room) => void> = [];
+
+// called after a save conflict pulled another instance's changes into `room`
+export function onRoomMerged(fn: (room: Room) => void) {
+  mergeListeners.push(fn);
+}
+
+// bump the version + fire-and-forget save; called after every mutation
+export function persistRoom(room: Room) {
+  room.version = (room.version ?? 0) + 1;
+  if (!store) return;
+  const s = store;
+  const next = (saving.get(room.code) ?? Promise.resolve())
+    .then(() => saveRoom(s, room))
+    .catch((e) => {
+      // eslint-disable-next-line no-console
+      console.error(`persist ${room.code} failed`, e);
+    });
+  saving.set(room.code, next);
+  void next.finally(() => {
+    if (saving.get(room.code) === next) saving.delete(room.code);
+  });
+}
+
+// resolves once no save is running or queued
+export async function savesIdle() {
+  while (saving.size) await Promise.all([...saving.values()]);
+}
+
+// JSON per top-level field, station slot and binding: the units a merge keeps or takes
+function fieldsOf(room: Room) {
+  const out = new Map<string, string>();
+  for (const [k, v] of Object.entries(room)) {
+    if (k === "stations" || k === "bindings" || k === "version" || v === undefined) continue;
+    out.set(k, JSON.stringify(v));
+  }
+  for (const [id, slot] of room.stations) out.set(`station:${id}`, JSON.stringify(slot));
+  for (const [clientId, id] of room.bindings) out.set(`binding:${clientId}`, String(id));
+  return out;
+}
+
+// take from `theirs` everything this instance left as it was in `base`
+function mergeRoom(room: Room, theirs: Room, base: Map<string, string> | undefined) {
+  const mine = fieldsOf(room);
+  const keys = new Set([...mine.keys(), ...fieldsOf(theirs).keys()]);
+  for (const key of keys) {
+    if (mine.get(key) !== base?.get(key)) continue;
+    if (key.startsWith("station:")) {
+      const id = Number(key.slice("station:".length));
+      const slot = theirs.stations.get(id);
+      if (slot) room.stations.set(id, slot);
+      else room.stations.delete(id);
+    } else if (key.startsWith("binding:")) {
+      const clientId = key.slice("binding:".length);
+      const id = theirs.bindings.get(clientId);
+      if (id != null) room.bindings.set(clientId, id);
+      else room.bindings.delete(clientId);
+    } else {
+      const k = key as keyof Room;
+      if (theirs[k] !== undefined) Object.assign(room, { [k]: theirs[k] });
+      else delete room[k];
+    }
+  }
+}
+
+async function saveRoom(s: RedisStore, room: Room) {
+  for (let attempt = 1; attempt <= SAVE_ATTEMPTS; attempt++) {
+    if (rooms.get(room.code) !== room) return; // deleted/replaced meanwhile
+    const base = synced.get(room.code);
+    const fields = fieldsOf(room);
+    const version = room.version ?? 0;
+    if (await s.saveRoom(room, base?.version ?? 0)) {
+      synced.set(room.code, { version, fields });
+      return;
+    }
+    const theirs = await s.loadRoom(room.code);
+    if (rooms.get(room.code) !== room) return;
+    if (!theirs) {
+      synced.delete(room.code); // expired in the store: write it anew
+      continue;
+    }
+    mergeRoom(room, theirs, base?.fields);
+    synced.set(room.code, { version: theirs.version ?? 0, fields: fieldsOf(theirs) });
+    room.version = Math.max(room.version ?? 0, theirs.version ?? 0) + 1;
+    for (const fn of mergeListeners) fn(room);
+  }
+  throw new Error(`still conflicting after ${SAVE_ATTEMPTS} attempts`);
+}
+
+// per-room state kept outside the room (e.g. webhook delivery logs) is
+// dropped by these when the room goes, however it goes (delete, TTL, remote)
+const deleteListeners: Array<(code: string) => void> = [];
+
+export function onRoomDeleted(fn: (code: string) => void) {
+  deleteListeners.push(fn);
+}
+
+// load every stored room into memory (startup). When no other instance is
+// alive no socket is connected yet, so all stations start disconnected and
+// the empty-room TTL is armed; otherwise keep the presence peers reported.
+export async function restoreRooms(resetPresence = true): Promise<Room[]> {
+  if (!store) return [];
+  const loaded = await store.loadAllRooms();
+  for (const room of loaded) {
+    synced.set(room.code, { version: room.version ?? 0, fields: fieldsOf(room) });
+    if (resetPresence) {
+      for (const s of room.stations.values()) s.connected = false;
+      room.centralConnected = false;
+    }
+    if (room.state === "RUNNING" && room.startedAt != null) {
+      room.timeLeft = Math.max(
+        0,
+        room.roundDurationSec -
+          Math.floor((Date.now() - room.startedAt) / 1000)
+      );
+    }
+    rooms.set(room.code, room);
+    scheduleRoomCleanupIfEmpty(room);
+  }
+  return loaded;
+}
+
+// === cluster sync: another instance saved/deleted a room (no re-persist) ===
+
+// merge into the existing object so references held elsewhere stay valid;
+// fields the sender left unset (dropped by JSON) are cleared too. A copy no
+// newer than ours is ignored, and so is any copy while we are saving (the
+// save merges the stored one in on conflict).
+export function applyRemoteRoom(loaded: Room): Room {
+  const existing = rooms.get(loaded.code);
+  if (existing && ((loaded.version ?? 0) <= (existing.version ?? 0) || saving.has(loaded.code))) {
+    return existing;
+  }
+  synced.set(loaded.code, { version: loaded.version ?? 0, fields: fieldsOf(loaded) });
+  let room = loaded;
+  if (existing) {
+    for (const k of Object.keys(existing) as Array<keyof Room>) {
+      if (!(k in loaded)) delete existing[k];
+    }
+    room = Object.assign(existing, loaded);
+  } else {
+    rooms.set(room.code, room);
+  }
+  if (isRoomEmpty(room)) scheduleRoomCleanupIfEmpty(room);
+  else onAnyClientJoin(room);
+  return room;
+}
+
+export function dropRemoteRoom(code: string) {
+  const r = rooms.get(code);
+  if (!r) return;
+  rooms.delete(code);
+  synced.delete(code);
+  dropAudit(code);
+  onAnyClientJoin(r); // clears a pending TTL timer
+  for (const fn of deleteListeners) fn(code);
+}
+
 // === room-empty TTL (don't delete room immediately on refresh) ===
 const ROOM_TTL_MIN = 30;
 const emptyRoomTimers = new Map<string, NodeJS.Timeout>();
 
 function isRoomEmpty(room: Room): boolean {
+  if (room.centralConnected) return false;
   for (const s of room.stations.values()) {
     if (s.connected) return false;
   }
@@ -16,20 +210,19 @@ function isRoomEmpty(room: Room): boolean {
 }
 
 // mark disconnected but KEEP owner/binding
-export function onClientDisconnect(room: Room, clientId: string) {
+// `at`: when the client's last socket actually went away
+export function onClientDisconnect(room: Room, clientId: string, at = Date.now()) {
   const sid = room.bindings.get(clientId);
   if (sid) {
     const slot = room.stations.get(sid);
-    if (slot) slot.connected = false; // keep owner/binding
+    if (slot) {
+      slot.connected = false; // keep owner/binding
+      slot.lastSeenAt = at;
+    }
+    persistRoom(room);
   }
   // if truly empty -> schedule room deletion by TTL
-  if (isRoomEmpty(room) && !emptyRoomTimers.has(room.code)) {
-    const t = setTimeout(() => {
-      deleteRoom(room.code);
-      emptyRoomTimers.delete(room.code);
-    }, ROOM_TTL_MIN * 60 * 1000);
-    emptyRoomTimers.set(room.code, t);
-  }
+  scheduleRoomCleanupIfEmpty(room);
 }
 
 // cancel TTL when any client (re)joins
@@ -49,10 +242,70 @@ function makeStations(n: number): Map<number, StationSlot> {
   return m;
 }
 
+function applyOptions(room: Room, options: RoomOptions) {
+  if (options.session !== undefined) {
+    room.session = options.session ?? undefined;
+    room.sessionState = room.session ? "IDLE" : undefined;
+    room.currentRound = undefined;
+  }
+  if (options.phases !== undefined) {
+    room.phases = options.phases?.length ? options.phases : undefined;
+  }
+  if (room.phases) {
+    room.roundDurationSec = room.phases.reduce((n, p) => n + p.durationSec, 0);
+  }
+  if (options.cues !== undefined) {
+    room.cues = options.cues ? normalizeCues(options.cues) : undefined;
+  }
+  if (options.maxPauseSec !== undefined) {
+    room.maxPauseSec = options.maxPauseSec ?? undefined;
+  }
+  if (options.startPolicy !== undefined) {
+    room.startPolicy = options.startPolicy ?? undefined;
+  }
+  if (options.secondTicks !== undefined) {
+    room.secondTicks = options.secondTicks ?? undefined;
+  }
+}
+
+// === cues ===
+
+export const DEFAULT_CUES: Cue[] = [
+  { id: "warn60", mode: "remaining", atSec: 60, label: "60s left" },
+  { id: "warn30", mode: "remaining", atSec: 30, label: "30s left" },
+];
+
+function normalizeCues(input: CueInput[]): Cue[] {
+  const seen = new Set<string>();
+  const out: Cue[] = [];
+  for (const c of input) {
+    const id = c.id ?? `${c.mode}-${c.atSec}`;
+    if (seen.has(id)) throw new Error("E_INVALID_PAYLOAD");
+    seen.add(id);
+    out.push({ ...c, id });
+  }
+  return out;
+}
+
+export function roomCues(room: Room): Cue[] {
+  return room.cues ?? DEFAULT_CUES;
+}
+
+// a cue only applies when its threshold lies strictly inside the round
+// (a 60s-remaining cue never fires in a 45s round)
+function cueApplies(cue: Cue, durationSec: number) {
+  return cue.atSec > 0 && cue.atSec < durationSec;
+}
+
+function cueDue(cue: Cue, elapsed: number, timeLeft: number) {
+  return cue.mode === "remaining" ? timeLeft <= cue.atSec : elapsed >= cue.atSec;
+}
+
 export function createRoom(
   centralClientId: string,
   stationsCount: number,
-  roundDurationSec: number
+  roundDurationSec: number,
+  options: RoomOptions = {}
 ): Room {
   const code = genCode();
   const room: Room = {
@@ -63,22 +316,142 @@ export function createRoom(
     roundDurationSec,
     stations: makeStations(stationsCount),
     bindings: new Map(),
-    warned30: false,
-    warned60: false,
     pendingCompaction: false,
+    centralConnected: true,
+    centralLastSeenAt: Date.now(),
+    displayToken: genDisplayToken(),
   };
+  applyOptions(room, options);
   rooms.set(code, room);
+  persistRoom(room);
   return room;
 }
 
+// === central presence / handover ===
+
+function hashRecoveryCode(code: string) {
+  return crypto.createHash("sha256").update(code.trim().toUpperCase()).digest("hex");
+}
+
+// new one-time recovery code (replaces any unused one); only the hash is stored
+export function issueRecoveryCode(room: Room) {
+  const code = genRecoveryCode();
+  room.recoveryCodeHash = hashRecoveryCode(code);
+  persistRoom(room);
+  return code;
+}
+
+// returns true when the central's connected flag changed
+export function setCentralPresence(room: Room, connected: boolean, at = Date.now()) {
+  if (!!room.centralConnected === connected) return false;
+  room.centralConnected = connected;
+  room.centralLastSeenAt = at;
+  persistRoom(room);
+  return true;
+}
+
+// another device takes over with the recovery code; the code is used up
+export function claimCentral(room: Room, clientId: string, recoveryCode: string) {
+  const given = Buffer.from(hashRecoveryCode(recoveryCode), "hex");
+  const stored = Buffer.from(room.recoveryCodeHash ?? "", "hex");
+  if (stored.length !== given.length || !crypto.timingSafeEqual(stored, given)) {
+    throw new Error("E_BAD_RECOVERY_CODE");
+  }
+  transferCentral(room, clientId, true);
+}
+
+// the previous central's recovery code stops working
+export function transferCentral(room: Room, toClientId: string, connected: boolean) {
+  room.centralClientId = toClientId;
+  room.recoveryCodeHash = undefined;
+  if (room.coHosts?.[toClientId]) {
+    const { [toClientId]: _promoted, ...rest } = room.coHosts;
+    room.coHosts = Object.keys(rest).length ? rest : undefined;
+  }
+  room.centralConnected = connected;
+  room.centralLastSeenAt = Date.now();
+  persistRoom(room);
+}
+
 export function getRoom(code: string) {
   return rooms.get(code);
 }
 
+export function listRooms(): Room[] {
+  return Array.from(rooms.values());
+}
+
+// every room this client controls, co-hosts or holds a station in (client:hello)
+export function roomsForClient(clientId: string) {
+  const out: Array<{ room: Room; role: RoomRole; stationId?: number }> = [];
+  for (const room of rooms.values()) {
+    const stationId = room.bindings.get(clientId);
+    if (room.centralClientId === clientId) out.push({ room, role: "central", stationId });
+    else if (room.coHosts?.[clientId]) out.push({ room, role: "cohost", stationId });
+    else if (stationId) out.push({ room, role: "station", stationId });
+  }
+  return out;
+}
+
+// grant (or with null, revoke) co-host permissions
+export function setCoHost(
+  room: Room,
+  clientId: string,
+  permissions: CentralPermission[] | null
+) {
+  if (clientId === room.centralClientId) throw new Error("E_INVALID_PAYLOAD");
+  const coHosts = { ...(room.coHosts ?? {}) };
+  if (permissions) coHosts[clientId] = Array.from(new Set(permissions));
+  else delete coHosts[clientId];
+  room.coHosts = Object.keys(coHosts).length ? coHosts : undefined;
+  persistRoom(room);
+}
+
+// new display token; displays that joined with the old one are kicked by the caller
+export function rotateDisplayToken(room: Room) {
+  room.displayToken = genDisplayToken();
+  persistRoom(room);
+  return room.displayToken;
+}
+
+// === webhooks ===
+
+const WEBHOOKS_MAX = 10;
+
+// secret: generated when not given (returned once, see publicWebhook)
+export function addWebhook(
+  room: Room,
+  input: { url: string; events?: WebhookEvent[]; secret?: string }
+) {
+  const hooks = room.webhooks ?? [];
+  if (hooks.length >= WEBHOOKS_MAX) throw new Error("E_INVALID_PAYLOAD");
+  const hook: Webhook = {
+    id: genCode(),
+    url: input.url,
+    secret: input.secret ?? genWebhookSecret(),
+  };
+  if (input.events?.length) hook.events = Array.from(new Set(input.events));
+  room.webhooks = [...hooks, hook];
+  persistRoom(room);
+  return hook;
+}
+
+export function removeWebhook(room: Room, id: string) {
+  const hooks = room.webhooks ?? [];
+  if (!hooks.some((h) => h.id === id)) throw new Error("E_INVALID_PAYLOAD");
+  const rest = hooks.filter((h) => h.id !== id);
+  room.webhooks = rest.length ? rest : undefined;
+  persistRoom(room);
+}
+
 export function serialize(room: Room) {
   return {
     code: room.code,
+    version: room.version ?? 0,
     centralClientId: room.centralClientId,
+    centralConnected: room.centralConnected ?? false,
+    centralLastSeenAt: room.centralLastSeenAt,
+    coHosts: room.coHosts ?? {},
     state: room.state,
     stationsCount: room.stationsCount,
     roundDurationSec: room.roundDurationSec,
@@ -87,6 +460,16 @@ export function serialize(room: Room) {
       ready: s.ready,
       connected: s.connected,
       ownerClientId: s.ownerClientId,
+      offsetSec: s.offsetSec ?? 0,
+      endsAt: endsAt(room, s.id),
+      done: room.stationsDone?.includes(s.id) ?? false,
+      inactive: s.inactive ?? false,
+      lastSeenAt: s.lastSeenAt,
+      locked: s.locked ?? false,
+      name: s.name,
+      color: s.color,
+      description: s.description,
+      meta: s.meta,
     })),
     startedAt: room.startedAt,
     timeLeft:
@@ -98,29 +481,379 @@ export function serialize(room: Room) {
               Math.floor((Date.now() - room.startedAt) / 1000)
           )
         : undefined),
+    session: room.session,
+    sessionState: room.sessionState,
+    currentRound: room.currentRound,
+    transitionEndsAt: room.transitionEndsAt,
+    phases: room.phases,
+    phase: currentPhase(room),
+    cues: roomCues(room),
+    pausedAt: room.pausedAt,
+    pausedTotalMs:
+      (room.pausedTotalMs ?? 0) +
+      (room.pausedAt != null ? Date.now() - room.pausedAt : 0),
+    maxPauseSec: room.maxPauseSec,
+    autoResumeAt: autoResumeAt(room),
+    endsAt: endsAt(room),
+    adjustedSec: room.adjustedSec ?? 0,
+    startPolicy: startPolicy(room),
+    readyCount: readyCount(room),
+    secondTicks: room.secondTicks ?? true,
+    roster: room.roster ?? [],
+    rotation: currentRotation(room),
+  };
+}
+
+export type RoomSnapshot = ReturnType<typeof serialize>;
+
+// what everyone but the hosts sees: no client ids, only whether a station is
+// taken and whether it is the viewer's own
+export function redactSnapshot(full: RoomSnapshot, viewerClientId?: string) {
+  const { centralClientId: _central, coHosts: _coHosts, roster: _roster, stations, ...rest } = full;
+  return {
+    ...rest,
+    stations: stations.map(({ ownerClientId, ...s }) => ({
+      ...s,
+      claimed: ownerClientId != null,
+      isYou: viewerClientId != null && ownerClientId === viewerClientId,
+    })),
+  };
+}
+
+export type PublicSnapshot = ReturnType<typeof redactSnapshot>;
+
+// snapshot as this client may see it
+export function viewFor(room: Room, clientId: string): RoomSnapshot | PublicSnapshot {
+  const full = serialize(room);
+  return isHost(room, clientId) ? full : redactSnapshot(full, clientId);
+}
+
+// === roster / rotation ===
+
+// replaces the roster (empty clears it); the rotation starts over at round 1
+export function setRoster(room: Room, candidates: Candidate[]) {
+  if (room.state !== "WAITING") throw new Error("E_BAD_STATE");
+  validateRoster(room, candidates);
+  room.roster = candidates.length ? candidates : undefined;
+  room.rotationRound = undefined;
+  persistRoom(room);
+}
+
+// the running round's rotation, or the upcoming one while waiting/between rounds
+export function currentRotation(room: Room) {
+  let round: number;
+  if (room.state === "WAITING") round = room.session ? 1 : (room.rotationRound ?? 0) + 1;
+  else if (inTransition(room)) round = (room.rotationRound ?? 0) + 1;
+  else round = room.rotationRound ?? 1;
+  return rotationFor(room, round);
+}
+
+// === phases ===
+
+// phase containing second `elapsedSec` of the round (last phase once over)
+export function phaseAt(room: Room, elapsedSec: number) {
+  if (!room.phases?.length) return undefined;
+  let startSec = 0;
+  for (let index = 0; index < room.phases.length; index++) {
+    const phase = room.phases[index];
+    const endSec = startSec + phase.durationSec;
+    if (elapsedSec < endSec || index === room.phases.length - 1) {
+      return { index, phase, startSec, endSec };
+    }
+    startSec = endSec;
+  }
+  return undefined;
+}
+
+// current phase with time left in it; endsAt only while the clock runs
+export function currentPhase(room: Room) {
+  if (room.phaseIndex == null || !room.phases) return undefined;
+  const timeLeft =
+    room.timeLeft ??
+    (room.startedAt
+      ? Math.max(
+          0,
+          room.roundDurationSec -
+            Math.floor((Date.now() - room.startedAt) / 1000)
+        )
+      : room.roundDurationSec);
+  const at = phaseAt(room, room.roundDurationSec - timeLeft);
+  if (!at) return undefined;
+  return {
+    name: at.phase.name,
+    index: at.index,
+    of: room.phases.length,
+    timeLeft: Math.max(0, at.endSec - (room.roundDurationSec - timeLeft)),
+    endsAt:
+      room.state === "RUNNING" && room.startedAt != null
+        ? room.startedAt + at.endSec * 1000
+        : undefined,
   };
 }
 
+// === station labels ===
+
+const LABEL_KEYS = ["name", "color", "description", "meta"] as const;
+
+function hasLabel(s: StationSlot) {
+  return LABEL_KEYS.some((k) => s[k] != null);
+}
+
+function setField<K extends keyof StationLabel>(dst: StationLabel, k: K, v: StationLabel[K]) {
+  dst[k] = v;
+}
+
+function copyLabel(dst: StationSlot, src: StationLabel) {
+  for (const k of LABEL_KEYS) {
+    if (src[k] != null) setField(dst, k, src[k]);
+    else delete dst[k];
+  }
+}
+
+// WAITING only; validates every station id before changing anything
+export function setStationLabels(
+  room: Room,
+  labels: Array<{ stationId: number } & StationLabelInput>
+) {
+  if (room.state !== "WAITING") throw new Error("E_BAD_STATE");
+  for (const l of labels) {
+    if (!room.stations.has(l.stationId)) throw new Error("E_INVALID_STATION");
+  }
+  for (const { stationId, ...input } of labels) {
+    const slot = room.stations.get(stationId)!;
+    for (const k of LABEL_KEYS) {
+      if (input[k] === null) delete slot[k];
+      else if (input[k] !== undefined) setField(slot, k, input[k]);
+    }
+  }
+  persistRoom(room);
+}
+
 export function setReady(room: Room, clientId: string, ready: boolean) {
   const sid = room.bindings.get(clientId);
   if (!sid) return;
   const slot = room.stations.get(sid)!;
+  if (ready && !slot.ready) slot.readyAt = Date.now();
+  else if (!ready) delete slot.readyAt;
   slot.ready = ready;
+  persistRoom(room);
+}
+
+// bind clientId -> stationId (also used for auto-reclaim of own slot)
+export function claimStation(room: Room, clientId: string, stationId: number) {
+  const slot = room.stations.get(stationId);
+  if (!slot) throw new Error("E_INVALID_PAYLOAD");
+  if (slot.ownerClientId && slot.ownerClientId !== clientId) {
+    throw new Error("E_STATION_TAKEN");
+  }
+  if (slot.locked) throw new Error("E_STATION_LOCKED");
+  slot.ownerClientId = clientId;
+  slot.connected = true;
+  slot.lastSeenAt = Date.now();
+  slot.inactive = undefined; // late arrival joins the running round
+  room.bindings.set(clientId, stationId);
+  persistRoom(room);
+  return slot;
+}
+
+// a bound client is back (refresh/reconnect): keep ready, mark connected
+// returns true only when its station was marked disconnected before
+export function reconnectClient(room: Room, clientId: string) {
+  const sid = room.bindings.get(clientId);
+  const slot = sid ? room.stations.get(sid) : undefined;
+  if (!slot || slot.ownerClientId !== clientId || slot.connected) return false;
+  slot.connected = true;
+  slot.lastSeenAt = Date.now();
+  persistRoom(room);
+  return true;
+}
+
+// explicit leave: clear owner/ready/connected, compact tail when WAITING
+// returns false when the client held no station
+export function releaseStation(room: Room, clientId: string) {
+  const sid = room.bindings.get(clientId);
+  if (!sid) return false;
+  const slot = room.stations.get(sid);
+  if (slot) {
+    slot.ownerClientId = undefined;
+    slot.ready = false;
+    slot.connected = false;
+    delete slot.readyAt;
+  }
+  room.bindings.delete(clientId);
+  if (room.state !== "WAITING") {
+    room.pendingCompaction = true; // ทำทีหลัง
+  } else {
+    tailCompactIfWaiting(room);
+  }
+  persistRoom(room);
+  return true;
+}
+
+// === central station control (bindings always follow ownerClientId) ===
+
+function clearOwner(room: Room, slot: StationSlot) {
+  if (slot.ownerClientId && room.bindings.get(slot.ownerClientId) === slot.id) {
+    room.bindings.delete(slot.ownerClientId);
+  }
+  slot.ownerClientId = undefined;
+  slot.ready = false;
+  delete slot.readyAt;
+  slot.connected = false;
+}
+
+function stationOf(room: Room, stationId: number) {
+  const slot = room.stations.get(stationId);
+  if (!slot) throw new Error("E_INVALID_STATION");
+  return slot;
+}
+
+// bind clientId to stationId, moving it off any station it held and
+// displacing the slot's current owner; connected: client has a live socket
+export function assignStation(
+  room: Room,
+  clientId: string,
+  stationId: number,
+  connected: boolean
+) {
+  const slot = stationOf(room, stationId);
+  if (slot.locked) throw new Error("E_STATION_LOCKED");
+  const displaced = slot.ownerClientId !== clientId ? slot.ownerClientId : undefined;
+  const previous = room.bindings.get(clientId);
+  if (previous != null && previous !== stationId) {
+    const old = room.stations.get(previous);
+    if (old) clearOwner(room, old);
+  }
+  if (displaced) clearOwner(room, slot);
+  if (slot.ownerClientId !== clientId) slot.ready = false;
+  slot.ownerClientId = clientId;
+  slot.connected = connected;
+  slot.inactive = undefined;
+  room.bindings.set(clientId, stationId);
+  persistRoom(room);
+  return { displaced, previous: previous !== stationId ? previous : undefined };
+}
+
+// swap who sits where; labels/lock/time offsets stay with the slot
+export function swapStations(room: Room, aId: number, bId: number) {
+  if (aId === bId) throw new Error("E_INVALID_PAYLOAD");
+  const a = stationOf(room, aId);
+  const b = stationOf(room, bId);
+  if ((a.locked && b.ownerClientId) || (b.locked && a.ownerClientId)) {
+    throw new Error("E_STATION_LOCKED");
+  }
+  const person = (s: StationSlot) => ({
+    ownerClientId: s.ownerClientId,
+    ready: s.ready,
+    readyAt: s.readyAt,
+    connected: s.connected,
+    lastSeenAt: s.lastSeenAt,
+  });
+  const pa = person(a);
+  Object.assign(a, person(b));
+  Object.assign(b, pa);
+  if (a.ownerClientId) room.bindings.set(a.ownerClientId, a.id);
+  if (b.ownerClientId) room.bindings.set(b.ownerClientId, b.id);
+  persistRoom(room);
+  return { [aId]: a.ownerClientId, [bId]: b.ownerClientId };
+}
+
+// free a slot without compaction/renumbering; returns the former owner
+export function releaseStationSlot(room: Room, stationId: number) {
+  const slot = stationOf(room, stationId);
+  const owner = slot.ownerClientId;
+  if (!owner) return undefined;
+  clearOwner(room, slot);
+  persistRoom(room);
+  return owner;
+}
+
+// locking an occupied slot frees it first; returns the former owner
+export function lockStation(room: Room, stationId: number, locked: boolean) {
+  const slot = stationOf(room, stationId);
+  const owner = locked ? slot.ownerClientId : undefined;
+  if (owner) clearOwner(room, slot);
+  if (locked) slot.locked = true;
+  else delete slot.locked;
+  persistRoom(room);
+  return owner;
 }
 
 export function allClaimedAndReady(room: Room) {
   for (let i = 1; i <= room.stationsCount; i++) {
     const s = room.stations.get(i);
+    if (s?.locked) continue;
     if (!s?.ownerClientId) return false;
     if (!s.ready) return false;
   }
   return true;
 }
 
+// === start policy ===
+
+export function startPolicy(room: Room): StartPolicy {
+  return room.startPolicy ?? { mode: "all" };
+}
+
+export function readyCount(room: Room) {
+  let n = 0;
+  for (let i = 1; i <= room.stationsCount; i++) {
+    const s = room.stations.get(i);
+    if (s?.ownerClientId && s.ready) n++;
+  }
+  return n;
+}
+
+// WAITING room may start on its own right now (join/ready/config change)
+export function shouldAutoStart(room: Room) {
+  if (room.state !== "WAITING") return false;
+  const policy = startPolicy(room);
+  if (policy.mode === "all") return allClaimedAndReady(room);
+  if (policy.mode === "quorum") {
+    const open = Array.from(room.stations.values()).filter((s) => !s.locked).length;
+    const needed =
+      policy.minReady ?? Math.ceil(((policy.percent ?? 100) / 100) * open);
+    return readyCount(room) >= Math.max(1, needed);
+  }
+  return false; // manual / scheduled
+}
+
+// wall-clock start of a scheduled room still WAITING for it
+export function scheduledStartAt(room: Room) {
+  const policy = startPolicy(room);
+  if (room.state !== "WAITING" || policy.mode !== "scheduled") return undefined;
+  return policy.startsAt;
+}
+
+// countdown to a scheduled start; returns seconds left.
+// At zero the schedule is consumed and the round force-starts.
+export function tickSchedule(
+  room: Room,
+  onStart: () => void,
+  onFail: (code: string) => void
+) {
+  const at = scheduledStartAt(room);
+  if (at == null) return 0;
+  const left = Math.max(0, Math.ceil((at - Date.now()) / 1000));
+  if (left === 0) {
+    room.startPolicy = { mode: "scheduled" };
+    try {
+      startRound(room, { force: true });
+    } catch (e: any) {
+      persistRoom(room);
+      onFail(e?.message || "E_BAD_STATE");
+      return 0;
+    }
+    onStart();
+  }
+  return left;
+}
+
 export function updateConfig(
   room: Room,
   stationsCount: number,
-  roundDurationSec: number
+  roundDurationSec: number,
+  options: RoomOptions = {}
 ) {
   if (room.state !== "WAITING") throw new Error("E_BAD_STATE");
   // guard reducing count below claimed
@@ -134,84 +867,320 @@ export function updateConfig(
     if (!room.stations.get(i))
       room.stations.set(i, { id: i, ready: false, connected: false });
   room.roundDurationSec = roundDurationSec;
+  applyOptions(room, options);
+  persistRoom(room);
 }
 
-export function startRound(room: Room) {
+// force: start with whoever claimed a station; unclaimed ones sit the round out
+export function startRound(room: Room, opts: { force?: boolean } = {}) {
   if (room.state !== "WAITING") throw new Error("E_BAD_STATE");
-  if (!allClaimedAndReady(room)) throw new Error("E_BAD_STATE");
+  if (opts.force) {
+    let claimed = 0;
+    for (let i = 1; i <= room.stationsCount; i++) {
+      const s = room.stations.get(i);
+      if (s?.ownerClientId) claimed++;
+    }
+    if (claimed === 0) throw new Error("E_BAD_STATE");
+    for (let i = 1; i <= room.stationsCount; i++) {
+      const s = room.stations.get(i);
+      if (s && !s.ownerClientId) s.inactive = true;
+    }
+  } else if (!allClaimedAndReady(room)) {
+    throw new Error("E_BAD_STATE");
+  }
+  // locked (rest) stations sit the round out
+  for (const s of room.stations.values()) if (s.locked) s.inactive = true;
+  room.rotationRound = room.session ? 1 : (room.rotationRound ?? 0) + 1;
   room.state = "RUNNING";
   room.startedAt = Date.now();
+  room.roundStartedAt = room.startedAt;
   room.timeLeft = room.roundDurationSec;
-  room.warned30 = false;
-  room.warned60 = false;
+  room.firedCues = [];
+  room.pausedAt = undefined;
+  room.pausedTotalMs = 0;
+  clearTimeAdjustments(room);
+  room.phaseIndex = room.phases ? 0 : undefined;
+  if (room.session) {
+    room.currentRound = 1;
+    room.sessionState = "ROUND";
+  }
+  persistRoom(room);
 }
 
-export function stopRound(room: Room) {
-  if (room.state !== "RUNNING") throw new Error("E_BAD_STATE");
-  room.state = "ENDED";
-  if (room.interval) {
-    clearInterval(room.interval);
-    room.interval = undefined;
+// === multi-round session ===
+
+export function inTransition(room: Room) {
+  return (
+    room.state === "ENDED" &&
+    (room.sessionState === "CHANGEOVER" || room.sessionState === "BREAK")
+  );
+}
+
+// rooms that need a ticking loop
+// (round clock, changeover countdown, auto-resume, scheduled start)
+export function needsTicker(room: Room) {
+  return (
+    room.state === "RUNNING" ||
+    inTransition(room) ||
+    autoResumeAt(room) != null ||
+    scheduledStartAt(room) != null
+  );
+}
+
+// call once a session round has ENDED: enter changeover/break before the next
+// round, or DONE after the last one. undefined when the room has no session.
+export function advanceSession(
+  room: Room
+): "CHANGEOVER" | "BREAK" | "DONE" | undefined {
+  const session = room.session;
+  if (!session || room.currentRound == null) return undefined;
+  if (room.currentRound >= session.rounds) {
+    room.sessionState = "DONE";
+    room.transitionEndsAt = undefined;
+    persistRoom(room);
+    return "DONE";
+  }
+  const isBreak =
+    session.breakAfterRound === room.currentRound && !!session.breakSec;
+  const kind = isBreak ? "BREAK" : "CHANGEOVER";
+  const sec = isBreak ? session.breakSec! : session.changeoverSec;
+  room.sessionState = kind;
+  room.transitionEndsAt = Date.now() + sec * 1000;
+  room.phaseIndex = undefined;
+  persistRoom(room);
+  return kind;
+}
+
+// changeover/break finished -> next round starts without re-ready
+export function beginNextRound(room: Room) {
+  if (!inTransition(room)) throw new Error("E_BAD_STATE");
+  room.state = "RUNNING";
+  room.startedAt = Date.now();
+  room.roundStartedAt = room.startedAt;
+  room.timeLeft = room.roundDurationSec;
+  room.firedCues = [];
+  room.pausedAt = undefined;
+  room.pausedTotalMs = 0;
+  clearTimeAdjustments(room);
+  room.phaseIndex = room.phases ? 0 : undefined;
+  room.currentRound = (room.currentRound ?? 0) + 1;
+  room.rotationRound = room.currentRound;
+  room.sessionState = "ROUND";
+  room.transitionEndsAt = undefined;
+  persistRoom(room);
+}
+
+// countdown between rounds; returns seconds left in the changeover/break
+export function tickTransition(room: Room, onDone: () => void) {
+  if (!inTransition(room) || room.transitionEndsAt == null) return 0;
+  const left = Math.max(
+    0,
+    Math.ceil((room.transitionEndsAt - Date.now()) / 1000)
+  );
+  if (left === 0) {
+    onDone();
   }
+  return left;
+}
+
+// RUNNING -> PAUSED: freeze timeLeft, remember when the pause began
+export function pauseRound(room: Room) {
+  if (room.state !== "RUNNING") throw new Error("E_BAD_STATE");
+  const now = Date.now();
+  room.state = "PAUSED";
+  room.pausedAt = now;
   room.timeLeft = Math.max(
     0,
     room.roundDurationSec -
-      Math.floor((Date.now() - (room.startedAt ?? Date.now())) / 1000)
+      Math.floor((now - (room.startedAt ?? now)) / 1000)
   );
+  persistRoom(room);
 }
 
+// PAUSED -> RUNNING: shift startedAt by the pause so elapsed time is unchanged
 export function resumeRound(room: Room) {
-  if (room.state !== "ENDED") throw new Error("E_BAD_STATE");
-  const tl = room.timeLeft ?? 0;
-  if (tl <= 0) throw new Error("E_BAD_STATE");
+  if (room.state !== "PAUSED") throw new Error("E_BAD_STATE");
+  const now = Date.now();
+  const pausedMs = now - (room.pausedAt ?? now);
   room.state = "RUNNING";
-  // Recompute startedAt so that: roundDurationSec - elapsed == timeLeft
-  room.startedAt = Date.now() - (room.roundDurationSec - tl) * 1000;
-  room.warned30 = tl <= 30;
-  room.warned60 = tl <= 60;
+  room.startedAt = (room.startedAt ?? now) + pausedMs;
+  room.pausedTotalMs = (room.pausedTotalMs ?? 0) + pausedMs;
+  room.pausedAt = undefined;
+  persistRoom(room);
+}
+
+// === time adjustments ===
+
+function clearTimeAdjustments(room: Room) {
+  room.adjustedSec = 0;
+  room.stationsDone = [];
+  for (const s of room.stations.values()) delete s.offsetSec;
+}
+
+// seconds the round runs past the room clock (latest station offset)
+function overrunSec(room: Room) {
+  let max = 0;
+  for (let i = 1; i <= room.stationsCount; i++) {
+    const slot = room.stations.get(i);
+    if (!slot?.inactive) max = Math.max(max, slot?.offsetSec ?? 0);
+  }
+  return max;
+}
+
+// room clock end, or one station's own end (epoch ms, only while RUNNING)
+export function endsAt(room: Room, stationId?: number) {
+  if (room.state !== "RUNNING" || room.startedAt == null) return undefined;
+  const offset =
+    stationId != null ? room.stations.get(stationId)?.offsetSec ?? 0 : 0;
+  return room.startedAt + (room.roundDurationSec + offset) * 1000;
+}
+
+// whole room +/- seconds: moves the clock itself (current phase gets longer/shorter)
+export function adjustRoomTime(room: Room, deltaSec: number) {
+  if (room.state !== "RUNNING" && room.state !== "PAUSED") {
+    throw new Error("E_BAD_STATE");
+  }
+  const elapsedMs =
+    (room.pausedAt ?? Date.now()) - (room.startedAt ?? Date.now());
+  // never take away more than what's left on the room clock
+  const leftMs = room.roundDurationSec * 1000 - elapsedMs;
+  const delta = Math.max(deltaSec * 1000, -Math.max(0, leftMs));
+  room.startedAt = (room.startedAt ?? Date.now()) + delta;
+  room.adjustedSec = (room.adjustedSec ?? 0) + Math.round(delta / 1000);
+  room.timeLeft = Math.max(
+    0,
+    room.roundDurationSec - Math.floor((elapsedMs - delta) / 1000)
+  );
+  persistRoom(room);
 }
 
-export function tick(
+// one station +/- seconds relative to the room clock
+export function adjustStationTime(
   room: Room,
-  onWarn30: () => void,
-  onWarn60: () => void,
-  onTimeUp: () => void
+  stationId: number,
+  deltaSec: number
 ) {
+  if (room.state !== "RUNNING" && room.state !== "PAUSED") {
+    throw new Error("E_BAD_STATE");
+  }
+  const slot = room.stations.get(stationId);
+  if (!slot || stationId > room.stationsCount) {
+    throw new Error("E_INVALID_STATION");
+  }
+  if (room.stationsDone?.includes(stationId)) throw new Error("E_BAD_STATE");
+  slot.offsetSec = (slot.offsetSec ?? 0) + deltaSec;
+  persistRoom(room);
+}
+
+// when a PAUSED room resumes by itself (undefined without maxPauseSec)
+export function autoResumeAt(room: Room) {
+  if (room.state !== "PAUSED" || !room.maxPauseSec || room.pausedAt == null) {
+    return undefined;
+  }
+  return room.pausedAt + room.maxPauseSec * 1000;
+}
+
+// pause limit reached -> resume; returns true when it did
+export function tickPaused(room: Room, onAutoResume: () => void) {
+  const at = autoResumeAt(room);
+  if (at == null || Date.now() < at) return false;
+  resumeRound(room);
+  onAutoResume();
+  return true;
+}
+
+export interface TickHandlers {
+  onCue: (cue: Cue) => void;
+  onTimeUp: () => void;
+  onPhaseChanged?: () => void;
+  onStationTimeUp?: (stationId: number) => void;
+}
+
+export function tick(room: Room, handlers: TickHandlers) {
   if (room.state !== "RUNNING" || room.startedAt == null) return;
   const elapsed = Math.floor((Date.now() - room.startedAt) / 1000);
   room.timeLeft = Math.max(0, room.roundDurationSec - elapsed);
-  if (!room.warned60 && room.roundDurationSec >= 60 && room.timeLeft === 60) {
-    room.warned60 = true;
-    onWarn60();
+  const at = phaseAt(room, elapsed);
+  if (at && at.index !== room.phaseIndex && room.timeLeft > 0) {
+    room.phaseIndex = at.index;
+    persistRoom(room);
+    handlers.onPhaseChanged?.();
+  }
+  // threshold comparison (not equality) so a late tick can't skip a cue;
+  // firedCues keeps each one-shot across pause/resume and restarts
+  const fired = (room.firedCues ??= []);
+  const due = roomCues(room).filter(
+    (c) =>
+      !fired.includes(c.id) &&
+      cueApplies(c, room.roundDurationSec) &&
+      cueDue(c, elapsed, room.timeLeft!)
+  );
+  if (due.length) {
+    for (const c of due) fired.push(c.id);
+    persistRoom(room);
+    for (const c of due) handlers.onCue(c);
+  }
+  // per-station ends (room clock + offset); the round ends with the last one
+  const done = (room.stationsDone ??= []);
+  const newlyDone: number[] = [];
+  for (let i = 1; i <= room.stationsCount; i++) {
+    const slot = room.stations.get(i);
+    if (slot?.inactive) continue;
+    const offset = slot?.offsetSec ?? 0;
+    if (!done.includes(i) && elapsed >= room.roundDurationSec + offset) {
+      newlyDone.push(i);
+    }
   }
-  if (!room.warned30 && room.timeLeft === 30 && room.roundDurationSec > 30) {
-    room.warned30 = true;
-    onWarn30();
+  if (newlyDone.length) {
+    done.push(...newlyDone);
+    persistRoom(room);
+    for (const id of newlyDone) handlers.onStationTimeUp?.(id);
   }
-  if (room.timeLeft === 0) {
+  if (elapsed >= room.roundDurationSec + overrunSec(room)) {
     room.state = "ENDED";
-    clearInterval(room.interval);
-    room.interval = undefined;
-    onTimeUp();
+    recordRound(room, "timeout");
+    persistRoom(room);
+    handlers.onTimeUp();
   }
 }
 
 export function resetToWaiting(room: Room) {
-  // after ENDED -> WAITING, clear ready
-  for (const s of room.stations.values()) s.ready = false;
+  recordRound(room, "reset"); // no-op unless reset mid-round
+  // after ENDED -> WAITING, clear ready / inactive
+  for (const s of room.stations.values()) {
+    s.ready = false;
+    delete s.readyAt;
+    delete s.inactive;
+  }
   room.state = "WAITING";
   room.startedAt = undefined;
   room.timeLeft = undefined;
-  room.warned30 = false;
-  room.warned60 = false;
+  room.firedCues = [];
+  room.pausedAt = undefined;
+  clearTimeAdjustments(room);
+  // session ends here; keep DONE (and its last round) visible until next start
+  if (room.session && room.sessionState !== "DONE") {
+    room.sessionState = "IDLE";
+    room.currentRound = undefined;
+  }
+  room.transitionEndsAt = undefined;
+  room.phaseIndex = undefined;
   maybeApplyPendingCompaction(room);
+  persistRoom(room);
 }
 
 export function deleteRoom(code: string) {
   const r = rooms.get(code);
   if (!r) throw new Error("E_ROOM_NOT_FOUND");
-  if (r.interval) clearInterval(r.interval);
+  recordRound(r, "forceDelete"); // callers holding `r` can still report it
   rooms.delete(code);
+  synced.delete(code);
+  dropAudit(code);
+  for (const fn of deleteListeners) fn(code);
+  store?.deleteRoom(code).catch((e) => {
+    // eslint-disable-next-line no-console
+    console.error(`delete ${code} failed`, e);
+  });
 }
 
 // === Compaction helpers ===
@@ -222,13 +1191,15 @@ export function tailCompactIfWaiting(room: Room) {
   let newCount = room.stationsCount;
   while (newCount > 0) {
     const s = room.stations.get(newCount);
-    if (s && (s.ownerClientId || s.ready || s.connected)) break;
+    // a labelled slot is central's setup, not an empty tail
+    if (s && (s.ownerClientId || s.ready || s.connected || s.locked || hasLabel(s))) break;
     newCount--;
   }
   if (newCount < room.stationsCount) {
     for (let i = newCount + 1; i <= room.stationsCount; i++)
       room.stations.delete(i);
     room.stationsCount = newCount;
+    persistRoom(room);
   }
 }
 
@@ -248,11 +1219,7 @@ export function renumberCompactIfWaiting(
 
   // เคลียร์ช่องที่ลบ
   const removed = room.stations.get(removedId);
-  if (removed) {
-    removed.ownerClientId = undefined;
-    removed.connected = false;
-    removed.ready = false;
-  }
+  if (removed) clearOwner(room, removed);
 
   // เลื่อนช่วง [removedId+1..stationsCount] ลงมา
   for (let i = removedId; i < room.stationsCount; i++) {
@@ -268,6 +1235,11 @@ export function renumberCompactIfWaiting(
     dst.ownerClientId = src.ownerClientId;
     dst.connected = src.connected;
     dst.ready = src.ready;
+    dst.readyAt = src.readyAt;
+    dst.lastSeenAt = src.lastSeenAt;
+    copyLabel(dst, src);
+    if (src.locked) dst.locked = true;
+    else delete dst.locked;
 
     room.stations.set(i, dst);
 
@@ -288,6 +1260,7 @@ export function renumberCompactIfWaiting(
   // ลบตัวสุดท้ายเดิม
   room.stations.delete(room.stationsCount);
   room.stationsCount = Math.max(0, room.stationsCount - 1);
+  persistRoom(room);
 
   return renumbered;
 }
@@ -300,23 +1273,28 @@ export function maybeApplyPendingCompaction(room: Room) {
   room.pendingCompaction = false;
 }
 
-// ทำให้รอบจบทันที (ไว้ใช้กับ skip)
+// ทำให้รอบจบทันที (ไว้ใช้กับ skip) — from RUNNING or PAUSED
 export function immediateEnd(room: Room) {
-  if (room.interval) {
-    clearInterval(room.interval);
-    room.interval = undefined;
+  if (room.state === "PAUSED" && room.pausedAt != null) {
+    room.pausedTotalMs = (room.pausedTotalMs ?? 0) + (Date.now() - room.pausedAt);
   }
+  room.pausedAt = undefined;
   room.timeLeft = 0;
   room.state = "ENDED";
+  recordRound(room, "skip");
+  persistRoom(room);
 }
 
 // compatibility helpers for socket.ts
 export const markDisconnected = onClientDisconnect;
+export const stopRound = pauseRound;
 export function scheduleRoomCleanupIfEmpty(room: Room) {
   if (isRoomEmpty(room) && !emptyRoomTimers.has(room.code)) {
     const t = setTimeout(() => {
-      deleteRoom(room.code);
       emptyRoomTimers.delete(room.code);
+      if (!rooms.has(room.code)) return; // deleted meanwhile (central:deleteRoom)
+      deleteRoom(room.code);
+      emptyRoomDeletions.inc();
     }, ROOM_TTL_MIN * 60 * 1000);
     emptyRoomTimers.set(room.code, t);
   }
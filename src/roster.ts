@@ -0,0 +1,128 @@
+// src/roster.ts
+// Candidate roster + circuit rotation. The circuit has one position per
+// station, padded with rest positions when there are more candidates than
+// stations; every round each candidate moves one position forward. Locked
+// stations are positions too, whoever lands there rests that round.
+import type { Candidate, Room } from './types.js';
+
+export interface RotationSlot {
+  stationId: number;
+  candidate?: Candidate;
+}
+
+export interface Rotation {
+  round: number;
+  stations: RotationSlot[];
+  resting: Candidate[];
+}
+
+// one CSV line -> fields ("" quoting, commas or semicolons)
+function splitCsvLine(line: string): string[] {
+  const out: string[] = [];
+  let cur = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        cur += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cur += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',' || ch === ';') {
+      out.push(cur.trim());
+      cur = '';
+    } else {
+      cur += ch;
+    }
+  }
+  out.push(cur.trim());
+  return out;
+}
+
+// columns: id, name, station (header row optional, any order when present)
+// throws E_INVALID_ROSTER on a bad station number
+export function parseRosterCsv(text: string): Candidate[] {
+  const lines = text.split(/\r?\n/).filter((l) => l.trim() !== '');
+  if (!lines.length) return [];
+  let cols = { id: 0, name: 1, station: 2 };
+  const head = splitCsvLine(lines[0]).map((h) => h.toLowerCase());
+  if (head.includes('id')) {
+    const at = (...names: string[]) => head.findIndex((h) => names.includes(h));
+    cols = { id: at('id'), name: at('name'), station: at('station', 'startstation') };
+    lines.shift();
+  }
+  return lines.map((line) => {
+    const f = splitCsvLine(line);
+    const c: Candidate = { id: f[cols.id] ?? '' };
+    const name = cols.name >= 0 ? f[cols.name] : undefined;
+    if (name) c.name = name;
+    const station = cols.station >= 0 ? f[cols.station] : undefined;
+    if (station) {
+      const n = Number(station);
+      if (!Number.isInteger(n) || n < 1) throw new Error('E_INVALID_ROSTER');
+      c.startStation = n;
+    }
+    return c;
+  });
+}
+
+// ids unique, start stations unique and inside the circuit
+export function validateRoster(room: Room, candidates: Candidate[]) {
+  const length = Math.max(room.stationsCount, candidates.length);
+  const ids = new Set<string>();
+  const starts = new Set<number>();
+  for (const c of candidates) {
+    if (!c.id || ids.has(c.id)) throw new Error('E_INVALID_ROSTER');
+    ids.add(c.id);
+    if (c.startStation == null) continue;
+    if (c.startStation > length || starts.has(c.startStation)) throw new Error('E_INVALID_ROSTER');
+    starts.add(c.startStation);
+  }
+}
+
+// 1-based circuit position of every candidate in round 1
+function basePositions(roster: Candidate[], length: number) {
+  const pos = new Map<string, number>();
+  const taken = new Set<number>();
+  for (const c of roster) {
+    if (c.startStation == null) continue;
+    const p = ((c.startStation - 1) % length) + 1;
+    if (taken.has(p)) continue; // circuit shrank under the roster: treat as unplaced
+    pos.set(c.id, p);
+    taken.add(p);
+  }
+  let next = 1;
+  for (const c of roster) {
+    if (pos.has(c.id)) continue;
+    while (taken.has(next)) next++;
+    pos.set(c.id, next);
+    taken.add(next);
+  }
+  return pos;
+}
+
+// who is where in round `round` (1-based); undefined without a roster
+export function rotationFor(room: Room, round: number): Rotation | undefined {
+  const roster = room.roster;
+  if (!roster?.length) return undefined;
+  const length = Math.max(room.stationsCount, roster.length);
+  const base = basePositions(roster, length);
+  const atStation = new Map<number, Candidate>();
+  const resting: Candidate[] = [];
+  for (const c of roster) {
+    const p = ((base.get(c.id)! - 1 + round - 1) % length) + 1;
+    if (p <= room.stationsCount && !room.stations.get(p)?.locked) atStation.set(p, c);
+    else resting.push(c);
+  }
+  const stations: RotationSlot[] = [];
+  for (let id = 1; id <= room.stationsCount; id++) {
+    stations.push({ stationId: id, candidate: atStation.get(id) });
+  }
+  return { round, stations, resting };
+}
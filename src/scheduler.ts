@@ -0,0 +1,157 @@
+// src/scheduler.ts
+// One timer for every room that needs a clock (RUNNING, changeover/break,
+// auto-resume, scheduled start). Fires are aligned to each room's own
+// second boundaries and kept in a min-heap, so thousands of rooms cost one
+// setTimeout. A room has at most one entry, hence at most one driver.
+import type { Room } from './types.js';
+import type { Cluster } from './cluster.js';
+import { autoResumeAt, getRoom, inTransition, needsTicker, scheduledStartAt } from './roomStore.js';
+import { tickLag } from './metrics.js';
+
+// fire a hair after the boundary so floor/ceil land on the new second
+const ALIGN_SLACK_MS = 5;
+
+type Entry = { at: number; code: string };
+
+// second boundaries are counted from this instant (undefined: no clock)
+function anchorOf(room: Room): number | undefined {
+  if (room.state === 'RUNNING') return room.startedAt;
+  if (inTransition(room)) return room.transitionEndsAt;
+  return scheduledStartAt(room);
+}
+
+// next fire time for a room after `now`
+export function nextFireAt(room: Room, now: number): number | undefined {
+  if (room.state === 'PAUSED') {
+    const at = autoResumeAt(room);
+    return at == null ? undefined : at + ALIGN_SLACK_MS;
+  }
+  const anchor = anchorOf(room);
+  if (anchor == null) return undefined;
+  const k = Math.floor((now - anchor) / 1000) + 1;
+  return anchor + k * 1000 + ALIGN_SLACK_MS;
+}
+
+export class RoomScheduler {
+  private heap: Entry[] = [];
+  private due = new Map<string, number>(); // code -> live entry's `at`
+  private timer?: NodeJS.Timeout;
+  private timerAt = Infinity;
+  private firing = false;
+
+  // drive: advance one room's clock (emit tick/cue/time-up...)
+  constructor(private drive: (room: Room) => void, private cluster?: Cluster) {}
+
+  get size() {
+    return this.due.size;
+  }
+
+  // (re)schedule after any change to a room's clock; drops rooms that no longer need one
+  sync(room: Room) {
+    if (!needsTicker(room)) {
+      this.due.delete(room.code);
+      return;
+    }
+    const at = nextFireAt(room, Date.now());
+    if (at == null) {
+      this.due.delete(room.code);
+      return;
+    }
+    // newly clocked room: try for the lease now instead of waiting for the renew loop
+    if (!this.firing && !this.due.has(room.code)) {
+      void this.cluster?.claim(room.code).catch(() => {});
+    }
+    this.due.set(room.code, at);
+    this.push({ at, code: room.code });
+    this.arm();
+  }
+
+  stop() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+    this.timerAt = Infinity;
+    this.heap = [];
+    this.due.clear();
+  }
+
+  private arm() {
+    const head = this.peekLive();
+    if (!head) return;
+    if (this.timer && this.timerAt <= head.at) return;
+    if (this.timer) clearTimeout(this.timer);
+    this.timerAt = head.at;
+    this.timer = setTimeout(() => this.fire(), Math.max(0, head.at - Date.now()));
+  }
+
+  private fire() {
+    this.timer = undefined;
+    this.timerAt = Infinity;
+    const now = Date.now();
+    const batch: string[] = [];
+    for (let head = this.peekLive(); head && head.at <= now; head = this.peekLive()) {
+      this.pop();
+      this.due.delete(head.code);
+      batch.push(head.code);
+      tickLag.observe((now - head.at) / 1000);
+    }
+    this.firing = true;
+    for (const code of batch) {
+      const room = getRoom(code);
+      if (!room) continue;
+      // cluster: every instance keeps the entry, only the lease holder drives
+      if (!this.cluster || this.cluster.isDriver(code)) {
+        try {
+          this.drive(room);
+        } catch (e) {
+          // eslint-disable-next-line no-console
+          console.error(`tick ${code} failed`, e);
+        }
+      }
+      // drive may have re-synced the room already (e.g. next round started)
+      if (!this.due.has(code)) this.sync(room);
+    }
+    this.firing = false;
+    this.arm();
+  }
+
+  // --- min-heap by `at`, stale entries (superseded by a newer sync) skipped lazily ---
+
+  private peekLive(): Entry | undefined {
+    while (this.heap.length) {
+      const top = this.heap[0];
+      if (this.due.get(top.code) === top.at) return top;
+      this.pop();
+    }
+    return undefined;
+  }
+
+  private push(e: Entry) {
+    const h = this.heap;
+    h.push(e);
+    let i = h.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (h[parent].at <= h[i].at) break;
+      [h[parent], h[i]] = [h[i], h[parent]];
+      i = parent;
+    }
+  }
+
+  private pop() {
+    const h = this.heap;
+    const last = h.pop();
+    if (!h.length || !last) return;
+    h[0] = last;
+    let i = 0;
+    for (;;) {
+      const l = 2 * i + 1;
+      const r = l + 1;
+      let m = i;
+      if (l < h.length && h[l].at < h[m].at) m = l;
+      if (r < h.length && h[r].at < h[m].at) m = r;
+      if (m === i) break;
+      [h[m], h[i]] = [h[i], h[m]];
+      i = m;
+    }
+  }
+}
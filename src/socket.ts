@@ -1,23 +1,63 @@
 import type { Server, Socket } from "socket.io";
+import type { Cue, Room, RoomState } from "./types.js";
+import type { Cluster } from "./cluster.js";
+import { RoomScheduler } from "./scheduler.js";
 import {
 createRoom,
 getRoom,
+onRoomDeleted,
+onRoomMerged,
+listRooms,
+viewFor,
+redactSnapshot,
+roomsForClient,
+issueRecoveryCode,
+setCentralPresence,
+claimCentral,
+transferCentral,
+scheduleRoomCleanupIfEmpty,
+setCoHost,
+rotateDisplayToken,
+setStationLabels,
+assignStation,
+swapStations,
+releaseStationSlot,
+lockStation,
+setRoster,
+currentRotation,
+reconnectClient,
 serialize,
 updateConfig,
 setReady,
 startRound,
-stopRound,
+pauseRound,
 resumeRound,
+tickPaused,
+autoResumeAt,
 tick,
 resetToWaiting,
 deleteRoom,
-allClaimedAndReady, // (ยังใช้ใน flow start)
+shouldAutoStart,
+tickSchedule,
+scheduledStartAt,
 onClientDisconnect,
 onAnyClientJoin,
-tailCompactIfWaiting,
 renumberCompactIfWaiting,
-maybeApplyPendingCompaction,
 immediateEnd,
+claimStation,
+releaseStation,
+persistRoom,
+inTransition,
+advanceSession,
+beginNextRound,
+tickTransition,
+currentPhase,
+adjustRoomTime,
+adjustStationTime,
+endsAt,
+startPolicy,
+addWebhook,
+removeWebhook,
 } from "./roomStore.js";
 import {
 createRoomSchema,
@@ -26,12 +66,578 @@ joinSchema,
 setReadySchema,
 deleteRoomSchema,
 simpleCodeSchema,
+adjustTimeSchema,
+startRoundSchema,
+subscribeTicksSchema,
+timeSyncSchema,
+claimCentralSchema,
+transferCentralSchema,
+setCoHostSchema,
+displayTokenSchema,
+displayJoinSchema,
+setStationLabelsSchema,
+assignStationSchema,
+swapStationsSchema,
+stationRefSchema,
+lockStationSchema,
+removeStationSchema,
+importRosterSchema,
+rosterSchema,
+addWebhookSchema,
+removeWebhookSchema,
 } from "./validators.js";
 import { rateLimit } from "./rateLimit.js";
+import { nextBroadcast, type ViewUpdate } from "./patches.js";
+import { addSocket, afterGrace, liveSockets, removeSocket } from "./presence.js";
+import { assertCan, assertOwner, checkDisplayToken, isHost, isOwner } from "./permissions.js";
+import { sessionReport } from "./history.js";
+import { parseRosterCsv } from "./roster.js";
+import { audit, SYSTEM_ACTOR } from "./audit.js";
+import { publicWebhook, WebhookDispatcher } from "./webhooks.js";
+import { onCollect, roomsByState, socketErrors, socketEvents, socketsByRole } from "./metrics.js";
 
 const ERR = (code: string, extra?: any) => ({ code, ...(extra ?? {}) });
 
-export function bindSocket(io: Server) {
+// drift-correction broadcast interval (seconds of round time)
+const CLOCK_SYNC_SEC = 10;
+// socket.io room for sockets that opted into per-second ticks
+const tickChannel = (code: string) => `ticks:${code}`;
+// socket.io room for sockets that connected with auth.patches = true
+const patchChannel = (code: string) => `patches:${code}`;
+// socket.io room for read-only display sockets (kicked on token rotation)
+const displayChannel = (code: string) => `displays:${code}`;
+// every socket of one client, any room: personal events
+const clientChannel = (clientId: string) => `client:${clientId}`;
+// one client's sockets in one room, split by patch support: its own room view
+const seatChannel = (code: string, clientId: string, patches: boolean) =>
+  `seat:${code}:${clientId}${patches ? ":p" : ""}`;
+
+export type RoomCommands = ReturnType<typeof bindSocket>;
+
+const ROOM_STATES: RoomState[] = ["WAITING", "RUNNING", "PAUSED", "ENDED"];
+const SOCKET_ROLES = ["central", "cohost", "station", "display", "none"] as const;
+type SocketRole = (typeof SOCKET_ROLES)[number];
+
+// metrics label: E_* codes as is, anything else (zod messages) collapses
+const errorLabel = (code: unknown) =>
+  typeof code === "string" && /^E_[A-Z_]+$/.test(code) ? code : "E_INVALID_PAYLOAD";
+
+// strongest role a socket has in any room it joined (central > ... > none)
+function socketRole(socket: Socket): SocketRole {
+  const clientId = socket.handshake.auth?.clientId as string | undefined;
+  let rank = SOCKET_ROLES.length - 1;
+  for (const code of socket.rooms) {
+    const room = getRoom(code);
+    if (!room || !clientId) continue;
+    const role: SocketRole = socket.rooms.has(displayChannel(code))
+      ? "display"
+      : isOwner(room, clientId)
+        ? "central"
+        : room.coHosts?.[clientId]
+          ? "cohost"
+          : room.bindings.has(clientId)
+            ? "station"
+            : "none";
+    rank = Math.min(rank, SOCKET_ROLES.indexOf(role));
+  }
+  return SOCKET_ROLES[rank];
+}
+
+// last finished round (webhook payloads)
+const lastRound = (room: Room) => room.history?.[room.history.length - 1];
+
+export function bindSocket(io: Server, cluster?: Cluster, webhooks = new WebhookDispatcher()) {
+// the scheduler owns every room clock (RUNNING, changeover, auto-resume,
+// scheduled start) and calls driveRoom once per aligned second; this is the
+// only place tick/cue/time-up events come from. In cluster mode it only
+// drives rooms whose lease this instance holds.
+const scheduler = new RoomScheduler((room) => driveRoom(room), cluster);
+onRoomDeleted((code) => webhooks.drop(code));
+
+function driveRoom(room: Room) {
+  if (room.state === "PAUSED") {
+    tickPaused(room, () => {
+      audit(room.code, SYSTEM_ACTOR, "round.resumed", { auto: true });
+      emitResumed(room, true);
+    });
+    return;
+  }
+  if (room.state === "WAITING") {
+    const startsAt = scheduledStartAt(room);
+    const secondsLeft = tickSchedule(
+      room,
+      () => {
+        audit(room.code, SYSTEM_ACTOR, "round.started", { by: "schedule" });
+        emitRoundStarted(room);
+        broadcastRoom(room);
+        scheduler.sync(room);
+      },
+      (code) => {
+        audit(room.code, SYSTEM_ACTOR, "round.startFailed", { reason: code });
+        io.to(room.code).emit("room:startFailed", { reason: code });
+        broadcastRoom(room);
+      }
+    );
+    if (secondsLeft > 0) {
+      io.to(room.code).emit("room:startCountdown", { startsAt, secondsLeft });
+    }
+    return;
+  }
+  if (inTransition(room)) {
+    const timeLeft = tickTransition(room, () => startNextRound(room));
+    if (timeLeft > 0) {
+      io.to(room.code).emit("session:changeoverTick", { timeLeft });
+    }
+    return;
+  }
+  tick(room, {
+    onCue: (cue) => emitCue(room, cue),
+    onTimeUp: () => {
+      audit(room.code, SYSTEM_ACTOR, "round.timeUp");
+      webhooks.emit(room, "round.timeUp", { round: lastRound(room) });
+      io.to(room.code).emit("room:timeUp");
+      finishRound(room);
+    },
+    onPhaseChanged: () => emitPhaseChanged(room),
+    onStationTimeUp: (stationId) =>
+      io.to(room.code).emit("station:timeUp", { stationId }),
+  });
+  emitTick(room);
+}
+
+// per-second room:tick goes to the whole room unless the room turned it off,
+// then only to sockets that subscribed; every CLOCK_SYNC_SEC everyone gets a
+// room:clock drift correction to re-anchor locally rendered countdowns
+function emitTick(room: Room) {
+  const payload = {
+    timeLeft: room.timeLeft,
+    endsAt: endsAt(room),
+    serverNow: Date.now(),
+  };
+  if (room.secondTicks === false) {
+    io.to(tickChannel(room.code)).emit("room:tick", payload);
+  } else {
+    io.to(room.code).emit("room:tick", payload);
+  }
+  // from the clock itself: timeLeft sits at 0 while stations overrun
+  const elapsed = Math.floor((payload.serverNow - (room.startedAt ?? payload.serverNow)) / 1000);
+  if (room.state === "RUNNING" && elapsed > 0 && elapsed % CLOCK_SYNC_SEC === 0) {
+    io.to(room.code).emit("room:clock", { ...payload, phase: currentPhase(room) });
+  }
+}
+
+// patch-capable sockets get a room:patch against the previous broadcast (or
+// the full snapshot when there is none yet), the others the full room:updated
+function sendUpdate(full: ReturnType<Server["to"]>, patched: ReturnType<Server["to"]>, u: ViewUpdate) {
+  full.emit("room:updated", u.snapshot);
+  if (u.patch) patched.emit("room:patch", u.patch);
+  else if (u.patch === undefined) patched.emit("room:updated", u.snapshot);
+}
+
+// state change fan-out: hosts and station holders get their own view on their
+// seat channels, everyone else in the room (displays, unseated) the public one
+function broadcastRoom(room: Room) {
+  const code = room.code;
+  const update = nextBroadcast(room);
+  const seats = update.viewers.flatMap((v) => [
+    seatChannel(code, v.clientId, false),
+    seatChannel(code, v.clientId, true),
+  ]);
+  sendUpdate(
+    io.to(code).except([...seats, patchChannel(code)]),
+    io.to(patchChannel(code)).except(seats),
+    update.public
+  );
+  for (const v of update.viewers) {
+    sendUpdate(
+      io.to(seatChannel(code, v.clientId, false)),
+      io.to(seatChannel(code, v.clientId, true)),
+      v.update
+    );
+  }
+}
+
+// personal event: every socket of that client (any instance)
+function emitToClient(room: Room, clientId: string, event: string, payload: object) {
+  io.to(clientChannel(clientId)).emit(event, { roomCode: room.code, ...payload });
+}
+
+// events carrying client ids: central + co-hosts only
+function emitToHosts(room: Room, event: string, payload: object) {
+  const hosts = [room.centralClientId, ...Object.keys(room.coHosts ?? {})];
+  io.to(hosts.map(clientChannel)).emit(event, { roomCode: room.code, ...payload });
+}
+
+// a station's owner came online / went away (after the grace period)
+function emitPresence(room: Room, clientId: string) {
+  const stationId = room.bindings.get(clientId);
+  const slot = stationId ? room.stations.get(stationId) : undefined;
+  if (!slot || slot.ownerClientId !== clientId) return;
+  emitToHosts(room, "station:presence", {
+    stationId,
+    clientId,
+    connected: slot.connected,
+    sockets: liveSockets(room.code, clientId).length,
+    lastSeenAt: slot.lastSeenAt,
+  });
+}
+
+function emitCentralStatus(room: Room) {
+  io.to(room.code).emit("room:centralStatus", {
+    connected: room.centralConnected ?? false,
+    lastSeenAt: room.centralLastSeenAt,
+  });
+}
+
+// WAITING room whose start policy is satisfied -> start now
+function maybeAutoStart(room: Room) {
+  if (!shouldAutoStart(room)) return;
+  try {
+    // quorum: stations still unclaimed sit this round out
+    startRound(room, { force: startPolicy(room).mode === "quorum" });
+    audit(room.code, SYSTEM_ACTOR, "round.started", { by: "policy" });
+    emitRoundStarted(room);
+    broadcastRoom(room);
+    scheduler.sync(room);
+  } catch {}
+}
+
+function emitResumed(room: Room, auto: boolean) {
+  io.to(room.code).emit("room:resumed", {
+    startedAt: room.startedAt,
+    roundDurationSec: room.roundDurationSec,
+    endsAt: endsAt(room),
+    serverNow: Date.now(),
+    pausedTotalMs: room.pausedTotalMs,
+    phase: currentPhase(room),
+    auto,
+  });
+  webhooks.emit(room, "round.resumed", { auto });
+  broadcastRoom(room);
+}
+
+function emitCue(room: Room, cue: Cue) {
+  io.to(room.code).emit("room:cue", { ...cue, timeLeft: room.timeLeft });
+  // compatibility aliases for clients that predate room:cue
+  if (cue.mode === "remaining" && cue.atSec === 60) {
+    io.to(room.code).emit("room:warn60s");
+  }
+  if (cue.mode === "remaining" && cue.atSec === 30) {
+    io.to(room.code).emit("room:warn30s");
+  }
+}
+
+function emitPhaseChanged(room: Room) {
+  const phase = currentPhase(room);
+  if (!phase) return;
+  io.to(room.code).emit("room:phaseChanged", {
+    name: phase.name,
+    index: phase.index,
+    endsAt: phase.endsAt,
+  });
+}
+
+function emitRoundStarted(room: Room) {
+  io.to(room.code).emit("room:started", {
+    startedAt: room.startedAt,
+    roundDurationSec: room.roundDurationSec,
+    endsAt: endsAt(room),
+    serverNow: Date.now(),
+  });
+  emitPhaseChanged(room);
+  webhooks.emit(room, "round.started", {
+    startedAt: room.startedAt,
+    roundDurationSec: room.roundDurationSec,
+    sessionRound: room.currentRound,
+  });
+  // "Now: Candidate 14" on each station screen
+  const rotation = currentRotation(room);
+  for (const slot of rotation?.stations ?? []) {
+    const owner = room.stations.get(slot.stationId)?.ownerClientId;
+    if (!owner) continue;
+    emitToClient(room, owner, "station:candidate", {
+      stationId: slot.stationId,
+      round: rotation!.round,
+      candidate: slot.candidate ?? null,
+    });
+  }
+  if (room.session) {
+    io.to(room.code).emit("session:roundStarted", {
+      round: room.currentRound,
+      of: room.session.rounds,
+    });
+  }
+}
+
+// a round ended (time up / skip): session rooms move on to changeover/break,
+// otherwise (or after the last round) back to WAITING
+function finishRound(room: Room) {
+  const next = advanceSession(room);
+  if (next === "CHANGEOVER" || next === "BREAK") {
+    io.to(room.code).emit("session:changeover", {
+      kind: next,
+      nextRound: room.currentRound! + 1,
+      of: room.session!.rounds,
+      endsAt: room.transitionEndsAt,
+    });
+    broadcastRoom(room);
+    scheduler.sync(room);
+    return;
+  }
+  if (next === "DONE") {
+    io.to(room.code).emit("session:completed", { rounds: room.session!.rounds });
+    webhooks.emit(room, "session.completed", { report: sessionReport(room) });
+  }
+  resetToWaiting(room);
+  scheduler.sync(room);
+  broadcastRoom(room);
+}
+
+function startNextRound(room: Room) {
+  beginNextRound(room);
+  audit(room.code, SYSTEM_ACTOR, "round.started", { by: "session", round: room.currentRound });
+  emitRoundStarted(room);
+  broadcastRoom(room);
+  scheduler.sync(room);
+}
+
+// === central commands ===
+// shared by the central:* socket handlers and the REST API (api.ts): parse the
+// payload, check the caller, mutate, notify the room. Failures throw E_* codes.
+const commands = {
+  createRoom(actor: string, payload: unknown) {
+    const p = createRoomSchema.parse(payload);
+    const room = createRoom(actor, p.stationsCount, p.roundDurationSec, {
+      session: p.session,
+      phases: p.phases,
+      cues: p.cues,
+      maxPauseSec: p.maxPauseSec,
+      startPolicy: p.startPolicy,
+      secondTicks: p.secondTicks,
+    });
+    audit(room.code, actor, "room.created", {
+      stationsCount: p.stationsCount,
+      roundDurationSec: p.roundDurationSec,
+    });
+    webhooks.emit(room, "room.created", {
+      stationsCount: p.stationsCount,
+      roundDurationSec: p.roundDurationSec,
+    });
+    scheduler.sync(room);
+    // shown once: lets another device take over central (central:claim)
+    const recoveryCode = issueRecoveryCode(room);
+    return { room, recoveryCode };
+  },
+
+  updateConfig(actor: string, payload: unknown) {
+    const p = updateConfigSchema.parse(payload);
+    const room = getRoom(p.code);
+    if (!room) throw new Error("E_ROOM_NOT_FOUND");
+    assertCan(room, actor, "updateConfig");
+    if (!rateLimit(room.code)) throw new Error("E_RATE_LIMIT");
+    updateConfig(room, p.stationsCount, p.roundDurationSec, {
+      session: p.session,
+      phases: p.phases,
+      cues: p.cues,
+      maxPauseSec: p.maxPauseSec,
+      startPolicy: p.startPolicy,
+      secondTicks: p.secondTicks,
+    });
+    const { code: _code, ...config } = p;
+    audit(room.code, actor, "room.configUpdated", config);
+    broadcastRoom(room);
+    // scheduled start needs the countdown loop; a looser policy may start right away
+    scheduler.sync(room);
+    maybeAutoStart(room);
+    return room;
+  },
+
+  deleteRoom(actor: string, payload: unknown) {
+    const p = deleteRoomSchema.parse(payload);
+    const room = getRoom(p.code);
+    if (!room) throw new Error("E_ROOM_NOT_FOUND");
+    assertCan(room, actor, "deleteRoom");
+    if ((room.state === "RUNNING" || room.state === "PAUSED") && !p.force) {
+      throw new Error("E_BAD_STATE");
+    }
+    deleteRoom(p.code);
+    io.to(p.code).emit("room:deleted", { code: p.code });
+    // last chance to keep the round history
+    const report = sessionReport(room);
+    webhooks.emit(room, "room.deleted", { report });
+    return report;
+  },
+
+  // WAITING: renumber-compaction right away, otherwise only free the slot
+  removeStation(actor: string, payload: unknown) {
+    const { roomCode, stationId } = removeStationSchema.parse(payload);
+    const room = getRoom(roomCode);
+    if (!room) throw new Error("E_ROOM_NOT_FOUND");
+    assertCan(room, actor, "removeStation");
+    if (stationId > room.stationsCount) throw new Error("E_INVALID_STATION");
+
+    const slot = room.stations.get(stationId);
+    if (!slot) throw new Error("E_INVALID_STATION");
+
+    audit(room.code, actor, "station.removed", { stationId, owner: slot.ownerClientId });
+    // kick owner now (ถ้ามี) — ส่งตรงถึง client นั้น
+    if (slot.ownerClientId) {
+      emitToClient(room, slot.ownerClientId, "station:kicked", {
+        reason: "REMOVED_BY_CENTRAL",
+        stationId,
+      });
+    }
+
+    if (room.state !== "WAITING") {
+      // เคลียร์ช่อง แต่ยังไม่ compact ระหว่างรอบ (RUNNING/PAUSED/ENDED)
+      releaseStationSlot(room, stationId);
+      room.pendingCompaction = true;
+      persistRoom(room);
+      broadcastRoom(room);
+      return { pendingCompaction: true };
+    }
+    // WAITING: ทำ renumber-compaction
+    const renumbered = renumberCompactIfWaiting(room, stationId);
+    for (const r of renumbered) {
+      audit(room.code, actor, "station.renumbered", r);
+      emitToClient(room, r.clientId, "station:renumbered", {
+        oldId: r.oldId,
+        newId: r.newId,
+      });
+    }
+    broadcastRoom(room);
+    return { compacted: true };
+  },
+
+  startRound(actor: string, payload: unknown) {
+    const p = startRoundSchema.parse(payload);
+    const room = getRoom(p.code);
+    if (!room) throw new Error("E_ROOM_NOT_FOUND");
+    assertCan(room, actor, "startRound");
+    if (!rateLimit(room.code)) throw new Error("E_RATE_LIMIT");
+    const wasScheduled = scheduledStartAt(room) != null;
+    startRound(room, { force: p.force });
+    audit(room.code, actor, "round.started", { by: "central", force: p.force });
+    if (wasScheduled) {
+      // started early: the schedule is consumed (countdown loop keeps ticking the round)
+      room.startPolicy = { mode: "scheduled" };
+      persistRoom(room);
+    }
+    emitRoundStarted(room);
+    broadcastRoom(room);
+    scheduler.sync(room);
+    return room;
+  },
+
+  skipRound(actor: string, payload: unknown) {
+    const p = simpleCodeSchema.parse(payload);
+    const room = getRoom(p.code);
+    if (!room) throw new Error("E_ROOM_NOT_FOUND");
+    assertCan(room, actor, "skipRound");
+    // changeover/break: skip straight to the next round
+    if (inTransition(room)) {
+      io.to(room.code).emit("room:skipped", { by: "central" });
+      startNextRound(room);
+      return room;
+    }
+    if (room.state !== "RUNNING" && room.state !== "PAUSED") {
+      throw new Error("E_BAD_STATE");
+    }
+
+    // จบเดี๋ยวนี้
+    immediateEnd(room);
+    audit(room.code, actor, "round.skipped", { round: room.currentRound });
+    webhooks.emit(room, "round.skipped", { round: lastRound(room) });
+    io.to(room.code).emit("room:timeUp");
+    io.to(room.code).emit("room:skipped", { by: "central" });
+
+    // session -> changeover, else reset -> WAITING (+ pending compaction)
+    finishRound(room);
+    return room;
+  },
+
+  pauseRound(actor: string, payload: unknown) {
+    const p = simpleCodeSchema.parse(payload);
+    const room = getRoom(p.code);
+    if (!room) throw new Error("E_ROOM_NOT_FOUND");
+    assertCan(room, actor, "pauseRound");
+    pauseRound(room); // timeLeft preserved
+    audit(room.code, actor, "round.paused", { timeLeft: room.timeLeft });
+    webhooks.emit(room, "round.paused", { timeLeft: room.timeLeft });
+    io.to(room.code).emit("room:paused", {
+      pausedAt: room.pausedAt,
+      timeLeft: room.timeLeft,
+      autoResumeAt: autoResumeAt(room),
+    });
+    broadcastRoom(room);
+    // stays scheduled only when auto-resume is configured
+    scheduler.sync(room);
+    return room;
+  },
+
+  resumeRound(actor: string, payload: unknown) {
+    const p = simpleCodeSchema.parse(payload);
+    const room = getRoom(p.code);
+    if (!room) throw new Error("E_ROOM_NOT_FOUND");
+    assertCan(room, actor, "resumeRound");
+
+    resumeRound(room);
+    audit(room.code, actor, "round.resumed");
+    emitResumed(room, false);
+
+    // re-align the room clock to the shifted startedAt
+    scheduler.sync(room);
+    return room;
+  },
+
+  resetRoom(actor: string, payload: unknown) {
+    const p = simpleCodeSchema.parse(payload);
+    const room = getRoom(p.code);
+    if (!room) throw new Error("E_ROOM_NOT_FOUND");
+    assertCan(room, actor, "resetRoom");
+    resetToWaiting(room);
+    audit(room.code, actor, "round.reset");
+    webhooks.emit(room, "round.reset");
+    scheduler.sync(room);
+    broadcastRoom(room);
+    return room;
+  },
+};
+
+// /metrics gauges, filled on scrape
+onCollect(() => {
+  const states = new Map<string, number>(ROOM_STATES.map((st) => [st, 0]));
+  for (const room of listRooms()) states.set(room.state, (states.get(room.state) ?? 0) + 1);
+  roomsByState.reset();
+  for (const [state, n] of states) roomsByState.set({ state }, n);
+
+  const roles = new Map<string, number>(SOCKET_ROLES.map((r) => [r, 0]));
+  for (const socket of io.of("/").sockets.values()) {
+    const role = socketRole(socket);
+    roles.set(role, roles.get(role)! + 1);
+  }
+  socketsByRole.reset();
+  for (const [role, n] of roles) socketsByRole.set({ role }, n);
+});
+
+// another instance changed a room: follow its clock locally (deleted rooms drop out on their own)
+cluster?.onRoomSynced((_code, room) => {
+  if (room) scheduler.sync(room);
+});
+
+// a save conflicted and pulled in another instance's changes: our sockets
+// haven't seen those yet
+onRoomMerged((room) => {
+  scheduler.sync(room);
+  broadcastRoom(room);
+});
+
+// rooms restored from the store: resume RUNNING rounds where they left off
+for (const room of listRooms()) {
+  scheduler.sync(room);
+  broadcastRoom(room);
+}
+
 io.on("connection", (socket: Socket) => {
 const clientId = socket.handshake.auth?.clientId as string | undefined;
 if (!clientId) {
@@ -40,19 +646,136 @@ socket.disconnect(true);
 return;
 }
 
+const wantsPatches = socket.handshake.auth?.patches === true;
+socket.join(clientChannel(clientId));
+
+// metrics: count every event and every ack answered { ok: false }
+socket.use((packet, next) => {
+  const event = socket.listeners(packet[0]).length ? String(packet[0]) : "unknown";
+  socketEvents.inc({ event });
+  const last = packet.length - 1;
+  const ack = packet[last];
+  if (last > 0 && typeof ack === "function") {
+    packet[last] = (res: unknown) => {
+      if (typeof res === "object" && res !== null && "ok" in res && res.ok === false) {
+        const error = "error" in res && typeof res.error === "object" && res.error !== null ? res.error : {};
+        socketErrors.inc({ event, code: errorLabel("code" in error ? error.code : undefined) });
+      }
+      ack(res);
+    };
+  }
+  next();
+});
+
+function joinRoom(code: string) {
+  // clientId was checked above; a function declaration doesn't keep the narrowing
+  const id = clientId!;
+  socket.join([code, seatChannel(code, id, wantsPatches)]);
+  if (wantsPatches) socket.join(patchChannel(code));
+  addSocket(code, id, socket.id);
+}
+
+// this socket left the room: when it was the client's last one, announce the
+// disconnect after the grace period unless the client is back by then (here
+// or, in a cluster, on another instance)
+const leavePresence = (room: Room) => {
+  if (!removeSocket(room.code, clientId, socket.id)) return;
+  const lastSeenAt = Date.now();
+  afterGrace(room.code, clientId, async () => {
+    try {
+      if (getRoom(room.code) !== room) return;
+      const sockets = await io.in(room.code).fetchSockets().catch(() => []);
+      // the room may have been deleted or replaced while we were asking
+      if (getRoom(room.code) !== room) return;
+      if (sockets.some((s) => s.handshake.auth?.clientId === clientId)) return;
+      if (room.centralClientId === clientId && setCentralPresence(room, false, lastSeenAt)) {
+        emitCentralStatus(room);
+      }
+      onClientDisconnect(room, clientId, lastSeenAt);
+      audit(room.code, clientId, "client.disconnected", { stationId: room.bindings.get(clientId) });
+      emitPresence(room, clientId);
+      broadcastRoom(room);
+    } catch (e) {
+      // eslint-disable-next-line no-console
+      console.error(`presence ${room.code} failed`, e);
+    }
+  });
+};
+
 // --- HELLO / snapshot ---
-socket.on("client:hello", () => {
-  socket.emit("room:snapshot", { ok: true });
+// reconnecting client (refresh): rejoin every room it controls or has a
+// station in, and get each room's role + full state back
+socket.on("client:hello", (_payload, cb) => {
+  const rooms = roomsForClient(clientId).map(({ room, role, stationId }) => {
+    joinRoom(room.code);
+    let changed = false;
+    if (role === "central" && setCentralPresence(room, true)) {
+      emitCentralStatus(room);
+      changed = true;
+    }
+    if (reconnectClient(room, clientId)) {
+      audit(room.code, clientId, "client.reconnected", { stationId });
+      emitPresence(room, clientId);
+      changed = true;
+    }
+    if (changed) broadcastRoom(room);
+    onAnyClientJoin(room);
+    return { role, stationId, room: viewFor(room, clientId) };
+  });
+  const reply = { ok: true, rooms };
+  if (typeof cb === "function") cb(reply);
+  else socket.emit("room:snapshot", reply);
+});
+
+// --- CLOCK SYNC ---
+// NTP-style ping: offset ≈ ((t1 - t0) + (t2 - t3)) / 2, rtt ≈ (t3 - t0) - (t2 - t1)
+// where t3 is the client's receive time
+socket.on("time:sync", (payload, cb) => {
+  const t1 = Date.now();
+  const p = timeSyncSchema.safeParse(payload ?? {});
+  const reply = { t0: p.success ? p.data.t0 : undefined, t1, t2: Date.now() };
+  if (typeof cb === "function") cb(reply);
+  else socket.emit("time:sync", reply);
+});
+
+socket.on("room:subscribeTicks", (payload, cb) => {
+  try {
+    const p = subscribeTicksSchema.parse(payload);
+    const room = getRoom(p.code);
+    if (!room) throw new Error("E_ROOM_NOT_FOUND");
+    if (!socket.rooms.has(room.code)) throw new Error("E_BAD_STATE");
+    if (p.enabled) socket.join(tickChannel(room.code));
+    else socket.leave(tickChannel(room.code));
+    cb?.({ ok: true });
+  } catch (e: any) {
+    cb?.({ ok: false, error: ERR(e?.message || "E_INVALID_PAYLOAD") });
+  }
+});
+
+// full snapshot (with its version) for a client that missed a patch
+socket.on("room:resync", (payload, cb) => {
+  try {
+    const p = simpleCodeSchema.parse(payload);
+    const room = getRoom(p.code);
+    if (!room) throw new Error("E_ROOM_NOT_FOUND");
+    if (!socket.rooms.has(room.code)) throw new Error("E_BAD_STATE");
+    const snapshot = socket.rooms.has(displayChannel(room.code))
+      ? redactSnapshot(serialize(room))
+      : viewFor(room, clientId);
+    if (typeof cb === "function") cb({ ok: true, room: snapshot });
+    else socket.emit("room:updated", snapshot);
+  } catch (e: any) {
+    cb?.({ ok: false, error: ERR(e?.message || "E_INVALID_PAYLOAD") });
+  }
 });
 
 // --- CENTRAL ---
 socket.on("central:createRoom", (payload, cb) => {
   try {
-    const p = createRoomSchema.parse(payload);
-    const room = createRoom(clientId, p.stationsCount, p.roundDurationSec);
-    socket.join(room.code);
-    cb?.({ ok: true, room: serialize(room) });
-    io.to(room.code).emit("room:updated", serialize(room));
+    const { room, recoveryCode } = commands.createRoom(clientId, payload);
+    joinRoom(room.code);
+    cb?.({ ok: true, room: serialize(room), recoveryCode, displayToken: room.displayToken });
+    broadcastRoom(room);
   } catch (e: any) {
     cb?.({ ok: false, error: ERR(e?.message || "E_INVALID_PAYLOAD") });
   }
@@ -60,233 +783,450 @@ socket.on("central:createRoom", (payload, cb) => {
 
 socket.on("central:updateConfig", (payload, cb) => {
   try {
-    const p = updateConfigSchema.parse(payload);
+    commands.updateConfig(clientId, payload);
+    cb?.({ ok: true });
+  } catch (e: any) {
+    cb?.({ ok: false, error: ERR(e?.message || "E_INVALID_PAYLOAD") });
+  }
+});
+
+// take over central from a lost device; the used code is replaced by a new one
+socket.on("central:claim", (payload, cb) => {
+  try {
+    const p = claimCentralSchema.parse(payload);
     const room = getRoom(p.code);
     if (!room) throw new Error("E_ROOM_NOT_FOUND");
-    if (room.centralClientId !== clientId) throw new Error("E_NOT_CENTRAL");
-    if (!rateLimit(room.code)) throw new Error("E_RATE_LIMIT");
-    updateConfig(room, p.stationsCount, p.roundDurationSec);
-    io.to(room.code).emit("room:updated", serialize(room));
+    // own bucket: guessing codes must not rate-limit the real central
+    if (!rateLimit(`claim:${room.code}:${clientId}`)) throw new Error("E_RATE_LIMIT");
+    claimCentral(room, clientId, p.recoveryCode);
+    audit(room.code, clientId, "central.claimed");
+    joinRoom(room.code);
+    onAnyClientJoin(room);
+    const recoveryCode = issueRecoveryCode(room);
+    io.to(room.code).emit("room:centralChanged", { by: "recovery" });
+    emitCentralStatus(room);
+    broadcastRoom(room);
+    cb?.({ ok: true, room: serialize(room), recoveryCode });
+  } catch (e: any) {
+    cb?.({ ok: false, error: ERR(e?.message || "E_INVALID_PAYLOAD") });
+  }
+});
+
+// hand control to another client (it gets central:* rights, we lose them)
+socket.on("central:transfer", (payload, cb) => {
+  try {
+    const p = transferCentralSchema.parse(payload);
+    const room = getRoom(p.code);
+    if (!room) throw new Error("E_ROOM_NOT_FOUND");
+    assertOwner(room, clientId);
+    if (p.toClientId === clientId) throw new Error("E_INVALID_PAYLOAD");
+    transferCentral(room, p.toClientId, liveSockets(room.code, p.toClientId).length > 0);
+    audit(room.code, clientId, "central.transferred", { to: p.toClientId });
+    io.to(room.code).emit("room:centralChanged", { by: "transfer" });
+    emitToClient(room, p.toClientId, "central:granted", { by: "transfer" });
+    emitCentralStatus(room);
+    broadcastRoom(room);
+    scheduleRoomCleanupIfEmpty(room);
     cb?.({ ok: true });
   } catch (e: any) {
     cb?.({ ok: false, error: ERR(e?.message || "E_INVALID_PAYLOAD") });
   }
 });
 
-socket.on("central:deleteRoom", (payload, cb) => {
+// fresh recovery code (after a transfer, or to invalidate a leaked one)
+socket.on("central:recoveryCode", (payload, cb) => {
   try {
-    const p = deleteRoomSchema.parse(payload);
+    const p = simpleCodeSchema.parse(payload);
     const room = getRoom(p.code);
     if (!room) throw new Error("E_ROOM_NOT_FOUND");
-    if (room.centralClientId !== clientId) throw new Error("E_NOT_CENTRAL");
-    if (room.state === "RUNNING" && !p.force) throw new Error("E_BAD_STATE");
-    deleteRoom(p.code);
-    io.to(p.code).emit("room:deleted", { code: p.code });
+    assertOwner(room, clientId);
+    cb?.({ ok: true, recoveryCode: issueRecoveryCode(room) });
+  } catch (e: any) {
+    cb?.({ ok: false, error: ERR(e?.message || "E_INVALID_PAYLOAD") });
+  }
+});
+
+// grant/revoke co-host permissions (owner only)
+socket.on("central:setCoHost", (payload, cb) => {
+  try {
+    const p = setCoHostSchema.parse(payload);
+    const room = getRoom(p.code);
+    if (!room) throw new Error("E_ROOM_NOT_FOUND");
+    assertOwner(room, clientId);
+    setCoHost(room, p.clientId, p.permissions);
+    audit(room.code, clientId, "cohost.changed", { clientId: p.clientId, permissions: p.permissions });
+    emitToHosts(room, "room:coHostChanged", {
+      clientId: p.clientId,
+      permissions: p.permissions,
+    });
+    emitToClient(room, p.clientId, "cohost:changed", { permissions: p.permissions });
+    broadcastRoom(room);
     cb?.({ ok: true });
   } catch (e: any) {
     cb?.({ ok: false, error: ERR(e?.message || "E_INVALID_PAYLOAD") });
   }
 });
 
-// === NEW: central:removeStation ===
-socket.on("central:removeStation", (payload, cb) => {
+socket.on("central:displayToken", (payload, cb) => {
   try {
-    const roomCode = payload?.roomCode;
-    const stationId = payload?.stationId;
-    if (typeof roomCode !== "string" || !Number.isInteger(stationId)) {
-      throw new Error("E_INVALID_PAYLOAD");
+    const p = displayTokenSchema.parse(payload);
+    const room = getRoom(p.code);
+    if (!room) throw new Error("E_ROOM_NOT_FOUND");
+    assertOwner(room, clientId);
+    if (p.rotate) {
+      rotateDisplayToken(room);
+      audit(room.code, clientId, "display.tokenRotated");
+      const displays = io.in(displayChannel(room.code));
+      displays.emit("display:revoked", { code: room.code });
+      displays.socketsLeave([room.code, patchChannel(room.code), tickChannel(room.code), displayChannel(room.code)]);
     }
-    const room = getRoom(roomCode);
+    cb?.({ ok: true, displayToken: room.displayToken });
+  } catch (e: any) {
+    cb?.({ ok: false, error: ERR(e?.message || "E_INVALID_PAYLOAD") });
+  }
+});
+
+// room webhooks (owner only: they carry signing secrets)
+socket.on("central:addWebhook", async (payload, cb) => {
+  try {
+    const p = addWebhookSchema.parse(payload);
+    // before looking at the room: it may change while the host resolves
+    await webhooks.checkUrl(p.url);
+    const room = getRoom(p.code);
     if (!room) throw new Error("E_ROOM_NOT_FOUND");
-    if (room.centralClientId !== clientId) throw new Error("E_NOT_CENTRAL");
-    if (stationId < 1 || stationId > room.stationsCount) throw new Error("E_INVALID_STATION");
+    assertOwner(room, clientId);
+    const hook = addWebhook(room, p);
+    audit(room.code, clientId, "webhook.added", { id: hook.id, url: hook.url, events: hook.events });
+    // the secret is only ever returned here
+    cb?.({ ok: true, webhook: hook });
+  } catch (e: any) {
+    cb?.({ ok: false, error: ERR(e?.message || "E_INVALID_PAYLOAD") });
+  }
+});
 
-    const slot = room.stations.get(stationId);
-    if (!slot) throw new Error("E_INVALID_STATION");
+socket.on("central:removeWebhook", (payload, cb) => {
+  try {
+    const p = removeWebhookSchema.parse(payload);
+    const room = getRoom(p.code);
+    if (!room) throw new Error("E_ROOM_NOT_FOUND");
+    assertOwner(room, clientId);
+    removeWebhook(room, p.id);
+    audit(room.code, clientId, "webhook.removed", { id: p.id });
+    cb?.({ ok: true });
+  } catch (e: any) {
+    cb?.({ ok: false, error: ERR(e?.message || "E_INVALID_PAYLOAD") });
+  }
+});
 
-    if (room.state === "RUNNING") {
-      // kick owner now (ถ้ามี) — ส่งเป็น broadcast พร้อมระบุ owner ให้ client filter เอง
-      if (slot.ownerClientId) {
-        io.to(room.code).emit("station:kicked", {
-          reason: "REMOVED_BY_CENTRAL",
-          ownerClientId: slot.ownerClientId,
-          stationId,
-          roomCode,
-        });
-      }
-      // เคลียร์ช่อง แต่ยังไม่ compact ตอน RUNNING
-      slot.ownerClientId = undefined;
-      slot.ready = false;
-      slot.connected = false;
-      room.pendingCompaction = true;
-      io.to(room.code).emit("room:updated", serialize(room));
-      cb?.({ ok: true, pendingCompaction: true });
-    } else {
-      // WAITING: ทำ renumber-compaction
-      const renumbered = renumberCompactIfWaiting(room, stationId);
-      for (const r of renumbered) {
-        io.to(room.code).emit("station:renumbered", {
-          clientId: r.clientId,
-          oldId: r.oldId,
-          newId: r.newId,
-        });
-      }
-      io.to(room.code).emit("room:updated", serialize(room));
-      cb?.({ ok: true, compacted: true });
-    }
+// hooks + this instance's delivery log and dead letters for the room
+socket.on("central:listWebhooks", (payload, cb) => {
+  try {
+    const p = simpleCodeSchema.parse(payload);
+    const room = getRoom(p.code);
+    if (!room) throw new Error("E_ROOM_NOT_FOUND");
+    assertOwner(room, clientId);
+    cb?.({
+      ok: true,
+      webhooks: (room.webhooks ?? []).map(publicWebhook),
+      deliveries: webhooks.deliveries(room.code),
+      deadLetters: webhooks.deadLetters(room.code),
+    });
   } catch (e: any) {
     cb?.({ ok: false, error: ERR(e?.message || "E_INVALID_PAYLOAD") });
   }
 });
 
-// === NEW: central:skipRound ===
-socket.on("central:skipRound", (payload, cb) => {
+socket.on("central:deleteRoom", (payload, cb) => {
+  try {
+    const report = commands.deleteRoom(clientId, payload);
+    cb?.({ ok: true, report });
+  } catch (e: any) {
+    cb?.({ ok: false, error: ERR(e?.message || "E_INVALID_PAYLOAD") });
+  }
+});
+
+// finished rounds + session totals (hosts only)
+socket.on("central:getReport", (payload, cb) => {
   try {
     const p = simpleCodeSchema.parse(payload);
     const room = getRoom(p.code);
     if (!room) throw new Error("E_ROOM_NOT_FOUND");
-    if (room.centralClientId !== clientId) throw new Error("E_NOT_CENTRAL");
-    if (room.state !== "RUNNING") throw new Error("E_BAD_STATE");
+    if (!isHost(room, clientId)) throw new Error("E_NOT_CENTRAL");
+    cb?.({ ok: true, report: sessionReport(room) });
+  } catch (e: any) {
+    cb?.({ ok: false, error: ERR(e?.message || "E_INVALID_PAYLOAD") });
+  }
+});
 
-    // จบเดี๋ยวนี้
-    immediateEnd(room);
-    io.to(room.code).emit("room:timeUp");
-    io.to(room.code).emit("room:skipped", { by: "central" });
+// === NEW: central:removeStation ===
+socket.on("central:removeStation", (payload, cb) => {
+  try {
+    cb?.({ ok: true, ...commands.removeStation(clientId, payload) });
+  } catch (e: any) {
+    cb?.({ ok: false, error: ERR(e?.message || "E_INVALID_PAYLOAD") });
+  }
+});
 
-    // reset -> WAITING + apply pending compaction
-    resetToWaiting(room);
-    maybeApplyPendingCompaction(room);
+// name/color/description/meta per station, WAITING only
+socket.on("central:setStationLabels", (payload, cb) => {
+  try {
+    const p = setStationLabelsSchema.parse(payload);
+    const room = getRoom(p.code);
+    if (!room) throw new Error("E_ROOM_NOT_FOUND");
+    assertCan(room, clientId, "editStations");
+    setStationLabels(room, p.labels);
+    audit(room.code, clientId, "station.labelsUpdated", { stationIds: p.labels.map((l) => l.stationId) });
+    broadcastRoom(room);
+    cb?.({ ok: true });
+  } catch (e: any) {
+    cb?.({ ok: false, error: ERR(e?.message || "E_INVALID_PAYLOAD") });
+  }
+});
 
-    io.to(room.code).emit("room:updated", serialize(room));
+// seat a specific client; whoever sat there is moved out
+socket.on("central:assignStation", (payload, cb) => {
+  try {
+    const p = assignStationSchema.parse(payload);
+    const room = getRoom(p.code);
+    if (!room) throw new Error("E_ROOM_NOT_FOUND");
+    assertCan(room, clientId, "manageStations");
+    const online = liveSockets(room.code, p.clientId).length > 0;
+    const { displaced, previous } = assignStation(room, p.clientId, p.stationId, online);
+    audit(room.code, clientId, "station.assigned", {
+      stationId: p.stationId,
+      clientId: p.clientId,
+      displaced,
+    });
+    if (displaced) {
+      emitToClient(room, displaced, "station:kicked", {
+        reason: "REASSIGNED_BY_CENTRAL",
+        stationId: p.stationId,
+      });
+    }
+    emitToClient(room, p.clientId, "station:assigned", {
+      stationId: p.stationId,
+      previousStationId: previous,
+    });
+    broadcastRoom(room);
+    maybeAutoStart(room);
     cb?.({ ok: true });
   } catch (e: any) {
     cb?.({ ok: false, error: ERR(e?.message || "E_INVALID_PAYLOAD") });
   }
 });
 
-// === Pause/Resume/Reset (มีแล้ว) ===
-socket.on("central:pauseRound", (payload, cb) => {
+socket.on("central:swapStations", (payload, cb) => {
   try {
-    const p = simpleCodeSchema.parse(payload);
+    const p = swapStationsSchema.parse(payload);
     const room = getRoom(p.code);
     if (!room) throw new Error("E_ROOM_NOT_FOUND");
-    if (room.centralClientId !== clientId) throw new Error("E_NOT_CENTRAL");
-    stopRound(room); // end with timeLeft preserved
-    io.to(room.code).emit("room:updated", serialize(room));
+    assertCan(room, clientId, "manageStations");
+    const owners = swapStations(room, p.a, p.b);
+    audit(room.code, clientId, "station.swapped", { a: p.a, b: p.b });
+    for (const [newId, oldId] of [[p.a, p.b], [p.b, p.a]]) {
+      const owner = owners[newId];
+      if (owner) emitToClient(room, owner, "station:moved", { oldId, newId });
+    }
+    broadcastRoom(room);
     cb?.({ ok: true });
   } catch (e: any) {
     cb?.({ ok: false, error: ERR(e?.message || "E_INVALID_PAYLOAD") });
   }
 });
 
-socket.on("central:resumeRound", (payload, cb) => {
+// free a slot, no renumbering
+socket.on("central:releaseStation", (payload, cb) => {
   try {
-    const p = simpleCodeSchema.parse(payload);
+    const p = stationRefSchema.parse(payload);
     const room = getRoom(p.code);
     if (!room) throw new Error("E_ROOM_NOT_FOUND");
-    if (room.centralClientId !== clientId) throw new Error("E_NOT_CENTRAL");
+    assertCan(room, clientId, "manageStations");
+    const owner = releaseStationSlot(room, p.stationId);
+    audit(room.code, clientId, "station.released", { stationId: p.stationId, owner });
+    if (owner) {
+      emitToClient(room, owner, "station:kicked", {
+        reason: "RELEASED_BY_CENTRAL",
+        stationId: p.stationId,
+      });
+    }
+    broadcastRoom(room);
+    cb?.({ ok: true });
+  } catch (e: any) {
+    cb?.({ ok: false, error: ERR(e?.message || "E_INVALID_PAYLOAD") });
+  }
+});
 
-    resumeRound(room);
-    io.to(room.code).emit("room:resumed", {
-      startedAt: room.startedAt,
-      roundDurationSec: room.roundDurationSec,
+// locked: nobody can claim it (rest station); an occupant is released
+socket.on("central:lockStation", (payload, cb) => {
+  try {
+    const p = lockStationSchema.parse(payload);
+    const room = getRoom(p.code);
+    if (!room) throw new Error("E_ROOM_NOT_FOUND");
+    assertCan(room, clientId, "manageStations");
+    const owner = lockStation(room, p.stationId, p.locked);
+    audit(room.code, clientId, p.locked ? "station.locked" : "station.unlocked", {
+      stationId: p.stationId,
+      owner,
     });
+    if (owner) {
+      emitToClient(room, owner, "station:kicked", {
+        reason: "LOCKED_BY_CENTRAL",
+        stationId: p.stationId,
+      });
+    }
+    broadcastRoom(room);
+    // the remaining stations may now satisfy the start policy
+    maybeAutoStart(room);
+    cb?.({ ok: true });
+  } catch (e: any) {
+    cb?.({ ok: false, error: ERR(e?.message || "E_INVALID_PAYLOAD") });
+  }
+});
 
-    // restart ticking loop (เพิ่ม warn60)
-    room.interval = setInterval(() => {
-      tick(
-        room,
-        () => io.to(room.code).emit("room:warn30s"),
-        () => io.to(room.code).emit("room:warn60s"),
-        () => {
-          io.to(room.code).emit("room:timeUp");
-          resetToWaiting(room);
-          io.to(room.code).emit("room:updated", serialize(room));
-        }
-      );
-      io.to(room.code).emit("room:tick", { timeLeft: room.timeLeft });
-    }, 1000);
+// candidate roster (CSV or JSON), WAITING only; rotation restarts at round 1
+socket.on("central:importRoster", (payload, cb) => {
+  try {
+    const p = importRosterSchema.parse(payload);
+    const room = getRoom(p.code);
+    if (!room) throw new Error("E_ROOM_NOT_FOUND");
+    assertCan(room, clientId, "manageRoster");
+    const candidates = p.csv != null ? rosterSchema.parse(parseRosterCsv(p.csv)) : p.candidates!;
+    setRoster(room, candidates);
+    audit(room.code, clientId, "roster.imported", { count: candidates.length });
+    broadcastRoom(room);
+    cb?.({ ok: true, count: candidates.length });
+  } catch (e: any) {
+    cb?.({ ok: false, error: ERR(e?.message || "E_INVALID_PAYLOAD") });
+  }
+});
 
+// manual start (any policy); force -> unclaimed stations become inactive
+socket.on("central:startRound", (payload, cb) => {
+  try {
+    commands.startRound(clientId, payload);
     cb?.({ ok: true });
   } catch (e: any) {
     cb?.({ ok: false, error: ERR(e?.message || "E_INVALID_PAYLOAD") });
   }
 });
 
-socket.on("central:resetRoom", (payload, cb) => {
+// === NEW: central:skipRound ===
+socket.on("central:skipRound", (payload, cb) => {
   try {
-    const p = simpleCodeSchema.parse(payload);
+    commands.skipRound(clientId, payload);
+    cb?.({ ok: true });
+  } catch (e: any) {
+    cb?.({ ok: false, error: ERR(e?.message || "E_INVALID_PAYLOAD") });
+  }
+});
+
+// === Pause/Resume/Reset (มีแล้ว) ===
+socket.on("central:pauseRound", (payload, cb) => {
+  try {
+    commands.pauseRound(clientId, payload);
+    cb?.({ ok: true });
+  } catch (e: any) {
+    cb?.({ ok: false, error: ERR(e?.message || "E_INVALID_PAYLOAD") });
+  }
+});
+
+socket.on("central:resumeRound", (payload, cb) => {
+  try {
+    commands.resumeRound(clientId, payload);
+    cb?.({ ok: true });
+  } catch (e: any) {
+    cb?.({ ok: false, error: ERR(e?.message || "E_INVALID_PAYLOAD") });
+  }
+});
+
+// +/- seconds for the whole room, or one station (finishes later/earlier than the room clock)
+socket.on("central:adjustTime", (payload, cb) => {
+  try {
+    const p = adjustTimeSchema.parse(payload);
     const room = getRoom(p.code);
     if (!room) throw new Error("E_ROOM_NOT_FOUND");
-    if (room.centralClientId !== clientId) throw new Error("E_NOT_CENTRAL");
-    if (room.interval) {
-      clearInterval(room.interval);
-      room.interval = undefined;
-    }
-    resetToWaiting(room);
-    io.to(room.code).emit("room:updated", serialize(room));
+    assertCan(room, clientId, "adjustTime");
+    if (!rateLimit(room.code)) throw new Error("E_RATE_LIMIT");
+    if (p.stationId != null) adjustStationTime(room, p.stationId, p.deltaSec);
+    else adjustRoomTime(room, p.deltaSec);
+    audit(room.code, clientId, "round.timeAdjusted", { deltaSec: p.deltaSec, stationId: p.stationId });
+    scheduler.sync(room);
+    io.to(room.code).emit("room:timeAdjusted", {
+      deltaSec: p.deltaSec,
+      stationId: p.stationId,
+      endsAt: endsAt(room, p.stationId),
+      timeLeft: room.timeLeft,
+    });
+    broadcastRoom(room);
     cb?.({ ok: true });
   } catch (e: any) {
     cb?.({ ok: false, error: ERR(e?.message || "E_INVALID_PAYLOAD") });
   }
 });
 
+socket.on("central:resetRoom", (payload, cb) => {
+  try {
+    commands.resetRoom(clientId, payload);
+    cb?.({ ok: true });
+  } catch (e: any) {
+    cb?.({ ok: false, error: ERR(e?.message || "E_INVALID_PAYLOAD") });
+  }
+});
+
+// --- DISPLAY ---
+// read-only screen: gets every room broadcast, never a station, no presence
+socket.on("display:join", (payload, cb) => {
+  try {
+    const p = displayJoinSchema.parse(payload);
+    const room = getRoom(p.code);
+    if (!room) throw new Error("E_ROOM_NOT_FOUND");
+    if (!checkDisplayToken(room, p.token)) throw new Error("E_BAD_TOKEN");
+    socket.join([room.code, displayChannel(room.code)]);
+    audit(room.code, clientId, "display.joined");
+    if (wantsPatches) socket.join(patchChannel(room.code));
+    cb?.({ ok: true, role: "display", room: redactSnapshot(serialize(room)) });
+  } catch (e: any) {
+    cb?.({ ok: false, error: ERR(e?.message || "E_INVALID_PAYLOAD") });
+  }
+});
+
 // --- STATION ---
 socket.on("station:join", (payload, cb) => {
   try {
     const { roomCode, stationId } = joinSchema.partial().parse(payload);
     const room = getRoom(roomCode!);
     if (!room) throw new Error("E_ROOM_NOT_FOUND");
-    socket.join(room.code);
+    if (socket.rooms.has(displayChannel(room.code))) throw new Error("E_FORBIDDEN");
+    joinRoom(room.code);
 
     // auto-reclaim
     const bound = room.bindings.get(clientId);
     const targetId = stationId ?? bound;
     if (!targetId) {
-      cb?.({ ok: true, room: serialize(room) });
+      cb?.({ ok: true, room: viewFor(room, clientId) });
       return;
     }
 
+    // bind
     const slot = room.stations.get(targetId);
-    if (!slot) throw new Error("E_INVALID_PAYLOAD");
-    if (slot.ownerClientId && slot.ownerClientId !== clientId) {
-      socket.emit("station:claimRejected", { reason: "E_STATION_TAKEN" });
-      cb?.({ ok: false, error: ERR("E_STATION_TAKEN") });
+    const wasOnline = slot?.ownerClientId === clientId && slot.connected;
+    try {
+      claimStation(room, clientId, targetId);
+    } catch (e: any) {
+      if (e?.message !== "E_STATION_TAKEN" && e?.message !== "E_STATION_LOCKED") throw e;
+      socket.emit("station:claimRejected", { reason: e.message });
+      cb?.({ ok: false, error: ERR(e.message) });
       return;
     }
-
-    // bind
-    slot.ownerClientId = clientId;
-    slot.connected = true;
-    room.bindings.set(clientId, targetId);
+    if (!wasOnline) audit(room.code, clientId, "station.joined", { stationId: targetId });
     onAnyClientJoin(room);
+    if (!wasOnline) emitPresence(room, clientId);
 
-    io.to(room.code).emit("room:updated", serialize(room));
-    cb?.({ ok: true, room: serialize(room) });
-
-    // auto-start if all ready
-    if (allClaimedAndReady(room) && room.state === "WAITING") {
-      try {
-        startRound(room);
-        io.to(room.code).emit("room:started", {
-          startedAt: room.startedAt,
-          roundDurationSec: room.roundDurationSec,
-        });
-        room.interval = setInterval(() => {
-          tick(
-            room,
-            () => io.to(room.code).emit("room:warn30s"),
-            () => io.to(room.code).emit("room:warn60s"),
-            () => {
-              io.to(room.code).emit("room:timeUp");
-              resetToWaiting(room);
-              io.to(room.code).emit("room:updated", serialize(room));
-            }
-          );
-          io.to(room.code).emit("room:tick", { timeLeft: room.timeLeft });
-        }, 1000);
-      } catch {}
-    }
+    broadcastRoom(room);
+    cb?.({ ok: true, room: viewFor(room, clientId) });
+
+    // auto-start per start policy
+    maybeAutoStart(room);
   } catch (e: any) {
     cb?.({ ok: false, error: ERR(e?.message || "E_INVALID_PAYLOAD") });
   }
@@ -299,28 +1239,20 @@ socket.on("station:leave", (payload, cb) => {
     const room = getRoom(roomCode);
     if (!room) throw new Error("E_ROOM_NOT_FOUND");
 
-    const sid = room.bindings.get(clientId);
-    if (!sid) {
+    const stationId = room.bindings.get(clientId);
+    // RUNNING: compaction ทำทีหลัง / WAITING: tail compaction
+    if (!releaseStation(room, clientId)) {
       cb?.({ ok: true });
       return;
     }
-    const slot = room.stations.get(sid);
-    if (slot) {
-      slot.ownerClientId = undefined;
-      slot.ready = false;
-      slot.connected = false;
-    }
-    room.bindings.delete(clientId);
+    audit(room.code, clientId, "station.left", { stationId });
     socket.leave(room.code);
+    socket.leave(tickChannel(room.code));
+    socket.leave(patchChannel(room.code));
+    socket.leave(seatChannel(room.code, clientId, wantsPatches));
+    removeSocket(room.code, clientId, socket.id);
 
-    if (room.state === "RUNNING") {
-      room.pendingCompaction = true; // ทำทีหลัง
-    } else {
-      // WAITING: tail compaction
-      tailCompactIfWaiting(room);
-    }
-
-    io.to(room.code).emit("room:updated", serialize(room));
+    broadcastRoom(room);
     cb?.({ ok: true });
   } catch (e: any) {
     cb?.({ ok: false, error: ERR(e?.message || "E_INVALID_PAYLOAD") });
@@ -332,31 +1264,14 @@ socket.on("station:setReady", (payload, cb) => {
     const p = setReadySchema.parse(payload);
     const room = getRoom(p.roomCode);
     if (!room) throw new Error("E_ROOM_NOT_FOUND");
+    // only a station holder has a ready flag (and gets an audit line)
+    const stationId = room.bindings.get(clientId);
+    if (!stationId) throw new Error("E_BAD_STATE");
     setReady(room, clientId, p.ready);
-    io.to(room.code).emit("room:updated", serialize(room));
-
-    if (allClaimedAndReady(room) && room.state === "WAITING") {
-      try {
-        startRound(room);
-        io.to(room.code).emit("room:started", {
-          startedAt: room.startedAt,
-          roundDurationSec: room.roundDurationSec,
-        });
-        room.interval = setInterval(() => {
-          tick(
-            room,
-            () => io.to(room.code).emit("room:warn30s"),
-            () => io.to(room.code).emit("room:warn60s"),
-            () => {
-              io.to(room.code).emit("room:timeUp");
-              resetToWaiting(room);
-              io.to(room.code).emit("room:updated", serialize(room));
-            }
-          );
-          io.to(room.code).emit("room:tick", { timeLeft: room.timeLeft });
-        }, 1000);
-      } catch {}
-    }
+    audit(room.code, clientId, "station.ready", { stationId, ready: p.ready });
+    broadcastRoom(room);
+
+    maybeAutoStart(room);
     cb?.({ ok: true });
   } catch (e: any) {
     cb?.({ ok: false, error: ERR(e?.message || "E_INVALID_PAYLOAD") });
@@ -364,16 +1279,16 @@ socket.on("station:setReady", (payload, cb) => {
 });
 
 // --- DISCONNECT ---
-socket.on("disconnect", () => {
+// "disconnecting": socket.rooms is already empty by the time "disconnect" fires
+socket.on("disconnecting", () => {
   for (const roomId of socket.rooms) {
     const room = getRoom(roomId);
-    if (room) {
-      onClientDisconnect(room, clientId);
-      socket.to(room.code).emit("room:updated", serialize(room));
-    }
+    if (room) leavePresence(room);
   }
 });
 
 
 });
+
+return commands;
 }
\ No newline at end of file
@@ -1,10 +1,117 @@
-export type RoomState = 'WAITING' | 'RUNNING' | 'ENDED';
+export type RoomState = 'WAITING' | 'RUNNING' | 'PAUSED' | 'ENDED';
 
-export interface StationSlot {
+// multi-round session: IDLE before the first round, ROUND while one runs,
+// CHANGEOVER/BREAK between rounds, DONE after the last round
+export type SessionState = 'IDLE' | 'ROUND' | 'CHANGEOVER' | 'BREAK' | 'DONE';
+
+export interface SessionConfig {
+rounds: number;
+changeoverSec: number;
+breakAfterRound?: number; // longer break after this round (1-based)
+breakSec?: number;
+}
+
+// one segment of a round, e.g. reading -> station -> feedback
+export interface RoundPhase {
+name: string;
+durationSec: number;
+}
+
+// one-shot cue per round, at seconds remaining or seconds elapsed
+export interface Cue {
+id: string;
+mode: 'remaining' | 'elapsed';
+atSec: number;
+label?: string;
+sound?: string; // client-side sound key
+}
+
+export type CueInput = Omit<Cue, 'id'> & { id?: string };
+
+// when a WAITING room starts its round
+// all: every station claimed + ready (default) / quorum: enough ready stations
+// manual: only central:startRound / scheduled: at startsAt (wall clock, epoch ms)
+export type StartPolicy =
+| { mode: 'all' }
+| { mode: 'quorum'; percent?: number; minReady?: number }
+| { mode: 'manual' }
+| { mode: 'scheduled'; startsAt?: number };
+
+// optional settings shared by createRoom/updateConfig (null clears)
+export interface RoomOptions {
+session?: SessionConfig | null;
+phases?: RoundPhase[] | null; // when set, roundDurationSec = sum of phases
+cues?: CueInput[] | null; // null -> default 60s/30s remaining cues
+maxPauseSec?: number | null; // auto-resume after this long in PAUSED
+startPolicy?: StartPolicy | null; // null -> { mode: 'all' }
+secondTicks?: boolean | null; // false -> room:tick only to subscribed sockets
+}
+
+// central:* commands a co-host can be granted (the central owner has all of them)
+export type CentralPermission =
+| 'updateConfig'
+| 'deleteRoom'
+| 'removeStation'
+| 'startRound'
+| 'skipRound'
+| 'pauseRound'
+| 'resumeRound'
+| 'adjustTime'
+| 'resetRoom'
+| 'editStations'
+| 'manageStations'
+| 'manageRoster';
+
+// room lifecycle events delivered to webhooks
+export type WebhookEvent =
+| 'room.created'
+| 'round.started'
+| 'round.paused'
+| 'round.resumed'
+| 'round.timeUp'
+| 'round.skipped'
+| 'round.reset'
+| 'session.completed'
+| 'room.deleted';
+
+export interface Webhook {
+id: string;
+url: string;
+secret: string; // HMAC-SHA256 key for x-webhook-signature
+events?: WebhookEvent[]; // undefined: every event
+}
+
+// central-set display fields of a station (editable in WAITING)
+export interface StationLabel {
+name?: string;
+color?: string; // #rgb / #rrggbb
+description?: string; // instructions shown on the station screen
+meta?: Record<string, string | number | boolean>;
+}
+
+// per-field edit: undefined keeps, null clears
+export type StationLabelInput = { [K in keyof StationLabel]?: StationLabel[K] | null };
+
+// exam candidate rotating through the stations (roster import)
+export interface Candidate {
+id: string;
+name?: string;
+startStation?: number; // circuit position in round 1 (unset: first free one)
+}
+
+// central: owner / cohost: granted subset of central:* / display: read-only screen
+export type RoomRole = 'central' | 'cohost' | 'station' | 'display';
+
+export interface StationSlot extends StationLabel {
 id: number;
 ownerClientId?: string;
 ready: boolean;
 connected: boolean;
+offsetSec?: number; // extra (or fewer) seconds for this station in the current round
+inactive?: boolean; // left out of the current round (force/quorum start while unclaimed)
+lastSeenAt?: number; // owner's last connect/disconnect (epoch ms)
+locked?: boolean; // no claims (e.g. rest station); skipped by start policies
+readyAt?: number; // when the owner last turned ready (epoch ms)
 }
 
 export interface Room {
@@ -15,13 +122,81 @@ stationsCount: number;
 roundDurationSec: number;
 stations: Map<number, StationSlot>;
 bindings: Map<string, number>;
-interval?: NodeJS.Timeout;
 timeLeft?: number;
 startedAt?: number;
-warned30?: boolean;
-warned60?: boolean; // ✅ สำหรับแจ้งเตือน 60 วิ ครั้งเดียว
+cues?: Cue[]; // undefined -> DEFAULT_CUES
+firedCues?: string[]; // cue ids already fired this round
+pausedAt?: number; // set while PAUSED
+pausedTotalMs?: number; // finished pauses in the current round
+maxPauseSec?: number;
+adjustedSec?: number; // room-wide time added/removed in the current round
+stationsDone?: number[]; // stations whose own time is up this round
+startPolicy?: StartPolicy; // undefined -> { mode: 'all' }
+secondTicks?: boolean; // undefined -> true (room:tick broadcast every second)
 pendingCompaction?: boolean; // ✅ รอ compact หลังรอบจบ
 lastTickAt?: number;
+session?: SessionConfig;
+sessionState?: SessionState;
+currentRound?: number; // 1-based, set while a session is in progress
+transitionEndsAt?: number; // end of current changeover/break (epoch ms)
+phases?: RoundPhase[];
+phaseIndex?: number; // current phase while a round is RUNNING/paused
+version?: number; // bumped on every persisted mutation (room:patch ordering)
+centralConnected?: boolean;
+centralLastSeenAt?: number; // central's last connect/disconnect (epoch ms)
+recoveryCodeHash?: string; // sha256 of the unused central recovery code
+coHosts?: Record<string, CentralPermission[]>; // clientId -> granted commands
+displayToken?: string; // lets read-only displays join (display:join)
+roster?: Candidate[];
+rotationRound?: number; // round the rotation is on (1-based, set at each round start)
+roundStartedAt?: number; // wall-clock start of the current round (startedAt shifts on resume/adjust)
+history?: RoundRecord[]; // finished rounds, oldest first (capped)
+webhooks?: Webhook[];
+}
+
+// one audit log line; actor is a clientId or 'system' (timers, auto-start)
+export interface AuditEntry {
+at: number; // epoch ms
+type: string; // e.g. round.started, station.ready
+actor: string;
+data?: Record<string, unknown>;
+}
+
+export type RoundEndReason = 'timeout' | 'skip' | 'reset' | 'forceDelete';
+
+export interface RoundStationRecord {
+stationId: number;
+clientId?: string;
+candidateId?: string;
+readyAt?: number; // epoch ms
+}
+
+// one finished round; durations in seconds
+export interface RoundRecord {
+round: number; // 1-based across the room's lifetime
+sessionRound?: number; // currentRound when part of a session
+startedAt: number;
+endedAt: number;
+plannedSec: number; // roundDurationSec at start
+adjustedSec: number; // central's +/- on the room clock
+actualSec: number; // time actually run (pauses excluded)
+pausedSec: number;
+endReason: RoundEndReason;
+stations: RoundStationRecord[]; // the ones that took part (not inactive)
+}
+
+// one POST attempt (delivery log) or a delivery that gave up (dead letter)
+export interface WebhookDelivery {
+id: string; // same for every attempt of one event to one hook
+hookId: string;
+url: string;
+event: WebhookEvent;
+roomCode: string;
+attempt: number; // 1-based
+at: number; // epoch ms
+ok: boolean;
+status?: number; // HTTP status when the hook answered
+error?: string; // network error / timeout
 }
 
 export interface HelloPayload {
@@ -1,2 +1,8 @@
 import { customAlphabet } from 'nanoid';
 export const genCode = customAlphabet('ABCDEFGHJKLMNPQRSTUVWXYZ23456789', 6);
+// one-time central recovery code (shown once to the central, only its hash is kept)
+export const genRecoveryCode = customAlphabet('ABCDEFGHJKLMNPQRSTUVWXYZ23456789', 12);
+// read-only display access (big clock screens)
+export const genDisplayToken = customAlphabet('ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz23456789', 24);
+// HMAC key for a room webhook
+export const genWebhookSecret = customAlphabet('ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz23456789', 32);
@@ -1,14 +1,77 @@
 import { z } from 'zod';
+import { CENTRAL_PERMISSIONS } from './permissions.js';
+import { WEBHOOK_EVENTS } from './webhooks.js';
+
+export const sessionSchema = z
+  .object({
+    rounds: z.number().int().min(1).max(200),
+    changeoverSec: z.number().int().min(0).max(3600),
+    breakAfterRound: z.number().int().min(1).optional(),
+    breakSec: z.number().int().min(0).max(36000).optional(),
+  })
+  .refine((s) => s.breakAfterRound == null || s.breakAfterRound < s.rounds, {
+    message: 'breakAfterRound must be before the last round',
+    path: ['breakAfterRound'],
+  });
+
+export const phaseSchema = z.object({
+  name: z.string().min(1).max(40),
+  durationSec: z.number().int().min(1).max(36000),
+});
+
+export const phasesSchema = z.array(phaseSchema).min(1).max(20);
+
+export const cueSchema = z.object({
+  id: z.string().min(1).max(40).optional(),
+  mode: z.enum(['remaining', 'elapsed']),
+  atSec: z.number().int().min(1).max(36000),
+  label: z.string().max(60).optional(),
+  sound: z.string().max(60).optional(),
+});
+
+export const cuesSchema = z
+  .array(cueSchema)
+  .max(20)
+  .refine(
+    (cues) => {
+      const ids = cues.map((c) => c.id ?? `${c.mode}-${c.atSec}`);
+      return new Set(ids).size === ids.length;
+    },
+    { message: 'duplicate cue' }
+  );
+
+export const startPolicySchema = z.discriminatedUnion('mode', [
+  z.object({ mode: z.literal('all') }),
+  z.object({
+    mode: z.literal('quorum'),
+    percent: z.number().int().min(1).max(100).optional(),
+    minReady: z.number().int().min(1).max(200).optional(),
+  }),
+  z.object({ mode: z.literal('manual') }),
+  z.object({ mode: z.literal('scheduled'), startsAt: z.number().int().positive().optional() }),
+]);
 
 export const createRoomSchema = z.object({
   stationsCount: z.number().int().min(1).max(200),
   roundDurationSec: z.number().int().min(10).max(36000),
+  session: sessionSchema.nullable().optional(),
+  phases: phasesSchema.nullable().optional(),
+  cues: cuesSchema.nullable().optional(),
+  maxPauseSec: z.number().int().min(10).max(36000).nullable().optional(),
+  startPolicy: startPolicySchema.nullable().optional(),
+  secondTicks: z.boolean().nullable().optional(),
 });
 
 export const updateConfigSchema = z.object({
   code: z.string().min(3).max(12),
   stationsCount: z.number().int().min(1).max(200),
   roundDurationSec: z.number().int().min(10).max(36000),
+  session: sessionSchema.nullable().optional(),
+  phases: phasesSchema.nullable().optional(),
+  cues: cuesSchema.nullable().optional(),
+  maxPauseSec: z.number().int().min(10).max(36000).nullable().optional(),
+  startPolicy: startPolicySchema.nullable().optional(),
+  secondTicks: z.boolean().nullable().optional(),
 });
 
 export const joinSchema = z.object({
@@ -26,6 +89,157 @@ export const deleteRoomSchema = z.object({
   force: z.boolean().optional(),
 });
 
+export const startRoundSchema = z.object({
+  code: z.string().min(3).max(12),
+  force: z.boolean().optional(), // start anyway, unclaimed stations become inactive
+});
+
+// +/- seconds on the running round, whole room or one station
+export const adjustTimeSchema = z.object({
+  code: z.string().min(3).max(12),
+  deltaSec: z.number().int().min(-36000).max(36000).refine((n) => n !== 0),
+  stationId: z.number().int().min(1).optional(),
+});
+
+// opt in/out of per-second room:tick for one socket
+export const subscribeTicksSchema = z.object({
+  code: z.string().min(3).max(12),
+  enabled: z.boolean(),
+});
+
+// clock sync ping: t0 = client Date.now() when sent
+export const timeSyncSchema = z.object({
+  t0: z.number().optional(),
+});
+
+// take over central with the recovery code from createRoom (device lost)
+export const claimCentralSchema = z.object({
+  code: z.string().min(3).max(12),
+  recoveryCode: z.string().min(1).max(64),
+});
+
+// hand central to another client
+export const transferCentralSchema = z.object({
+  code: z.string().min(3).max(12),
+  toClientId: z.string().min(1).max(128),
+});
+
+// grant a co-host a subset of central:* (null revokes)
+export const setCoHostSchema = z.object({
+  code: z.string().min(3).max(12),
+  clientId: z.string().min(1).max(128),
+  permissions: z.array(z.enum(CENTRAL_PERMISSIONS)).max(CENTRAL_PERMISSIONS.length).nullable(),
+});
+
+// read display token (rotate: issue a new one, kicking joined displays)
+export const displayTokenSchema = z.object({
+  code: z.string().min(3).max(12),
+  rotate: z.boolean().optional(),
+});
+
+export const displayJoinSchema = z.object({
+  code: z.string().min(3).max(12),
+  token: z.string().min(1).max(64),
+});
+
+// station label edit: undefined keeps a field, null clears it
+export const stationLabelSchema = z.object({
+  stationId: z.number().int().min(1),
+  name: z.string().min(1).max(40).nullable().optional(),
+  color: z
+    .string()
+    .regex(/^#(?:[0-9a-fA-F]{3}|[0-9a-fA-F]{6})$/)
+    .nullable()
+    .optional(),
+  description: z.string().max(1000).nullable().optional(),
+  meta: z
+    .record(z.string().min(1).max(40), z.union([z.string().max(200), z.number(), z.boolean()]))
+    .refine((m) => Object.keys(m).length <= 20, { message: 'too many meta keys' })
+    .nullable()
+    .optional(),
+});
+
+export const setStationLabelsSchema = z.object({
+  code: z.string().min(3).max(12),
+  labels: z.array(stationLabelSchema).min(1).max(200),
+});
+
+// central seat control
+export const assignStationSchema = z.object({
+  code: z.string().min(3).max(12),
+  clientId: z.string().min(1).max(128),
+  stationId: z.number().int().min(1),
+});
+
+export const swapStationsSchema = z.object({
+  code: z.string().min(3).max(12),
+  a: z.number().int().min(1),
+  b: z.number().int().min(1),
+});
+
+export const stationRefSchema = z.object({
+  code: z.string().min(3).max(12),
+  stationId: z.number().int().min(1),
+});
+
+// central:removeStation keeps its original field name (roomCode)
+export const removeStationSchema = z.object({
+  roomCode: z.string().min(3).max(12),
+  stationId: z.number().int().min(1),
+});
+
+export const lockStationSchema = z.object({
+  code: z.string().min(3).max(12),
+  stationId: z.number().int().min(1),
+  locked: z.boolean(),
+});
+
+export const candidateSchema = z.object({
+  id: z.string().min(1).max(40),
+  name: z.string().max(80).optional(),
+  startStation: z.number().int().min(1).optional(),
+});
+
+export const rosterSchema = z.array(candidateSchema).max(1000);
+
+// roster as CSV text (id,name,station) or parsed JSON; [] clears it
+export const importRosterSchema = z
+  .object({
+    code: z.string().min(3).max(12),
+    csv: z.string().max(200_000).optional(),
+    candidates: rosterSchema.optional(),
+  })
+  .refine((p) => (p.csv == null) !== (p.candidates == null), {
+    message: 'send csv or candidates',
+  });
+
+const webhookUrlSchema = z
+  .string()
+  .url()
+  .max(2000)
+  .refine((u) => /^https?:\/\//i.test(u), { message: 'http(s) only' });
+
+const webhookFields = {
+  url: webhookUrlSchema,
+  events: z.array(z.enum(WEBHOOK_EVENTS)).max(WEBHOOK_EVENTS.length).optional(), // omitted: all
+  secret: z.string().min(16).max(200).optional(),
+};
+
+export const addWebhookSchema = z.object({
+  code: z.string().min(3).max(12),
+  ...webhookFields,
+});
+
+export const removeWebhookSchema = z.object({
+  code: z.string().min(3).max(12),
+  id: z.string().min(1).max(40),
+});
+
+// WEBHOOKS env: JSON array of hooks that get every room's events
+export const globalWebhooksSchema = z.array(
+  z.object({ ...webhookFields, secret: webhookFields.secret.unwrap() })
+);
+
 // ✅ ใช้กับ pause / resume / reset
 export const simpleCodeSchema = z.object({
   code: z.string().min(3).max(12),
@@ -0,0 +1,246 @@
+// src/webhooks.ts
+// Outbound webhooks: room lifecycle events POSTed as signed JSON to the room's
+// own hooks (central:addWebhook) and the global ones (WEBHOOKS env). A failed
+// attempt is retried with exponential backoff; after the last one the delivery
+// is dead-lettered. Attempts and dead letters are kept per instance (capped):
+// an event is sent by the instance that handled it, never twice.
+//
+// Room hooks come from whoever created the room, so they may not reach
+// internal addresses (loopback, private, link-local, ...): checked when the
+// hook is added and again before every attempt, unless the host is in
+// allowedHosts (WEBHOOK_ALLOWED_HOSTS). Global hooks are the operator's own.
+// Redirects are never followed (a 3xx is a failed attempt), so a public host
+// can't bounce the POST inward. Known limit: fetch resolves the host again
+// after the check, so a DNS server answering differently the second time
+// (rebinding) can still get through; pinning the address would need a custom
+// HTTP agent.
+//
+// Receivers verify x-webhook-signature = "sha256=" + hex HMAC-SHA256(secret,
+// `${x-webhook-timestamp}.${raw body}`).
+import crypto from 'node:crypto';
+import { lookup } from 'node:dns/promises';
+import { BlockList } from 'node:net';
+import type { Room, Webhook, WebhookDelivery, WebhookEvent } from './types.js';
+
+export const WEBHOOK_EVENTS = [
+  'room.created',
+  'round.started',
+  'round.paused',
+  'round.resumed',
+  'round.timeUp',
+  'round.skipped',
+  'round.reset',
+  'session.completed',
+  'room.deleted',
+] as const satisfies readonly WebhookEvent[];
+
+export const SIGNATURE_HEADER = 'x-webhook-signature';
+export const TIMESTAMP_HEADER = 'x-webhook-timestamp';
+
+const LOG_MAX = 200; // attempts per room
+const DEAD_MAX = 200;
+
+export interface WebhookOptions {
+  global?: Webhook[];
+  allowedHosts?: string[]; // room hooks may point here even when it's internal
+  maxAttempts?: number;
+  backoffMs?: number; // first retry delay, doubled after each attempt
+  timeoutMs?: number; // per attempt
+}
+
+// POST body
+export interface WebhookPayload {
+  id: string; // delivery id, stable across retries (dedupe on it)
+  event: WebhookEvent;
+  roomCode: string;
+  at: number; // when the event happened (epoch ms)
+  data: Record<string, unknown>;
+}
+
+export function signWebhook(secret: string, timestamp: number, body: string) {
+  return 'sha256=' + crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+// 408/429/5xx and network errors are worth another try, other 4xx are not
+function retryable(status?: number) {
+  return status == null || status === 408 || status === 429 || status >= 500;
+}
+
+// IPv4-mapped IPv6 addresses are checked against the IPv4 ranges
+const INTERNAL = new BlockList();
+for (const [net, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16], // link-local, cloud metadata
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3], // multicast, reserved, broadcast
+] as const) {
+  INTERNAL.addSubnet(net, prefix, 'ipv4');
+}
+for (const [net, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7], // unique local
+  ['fe80::', 10], // link-local
+  ['ff00::', 8], // multicast
+] as const) {
+  INTERNAL.addSubnet(net, prefix, 'ipv6');
+}
+
+const hostOf = (url: string) => new URL(url).hostname.replace(/^\[|\]$/g, '').toLowerCase();
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export class WebhookDispatcher {
+  private logs = new Map<string, WebhookDelivery[]>();
+  private dead: WebhookDelivery[] = [];
+  private inflight = new Set<Promise<void>>();
+  private global: Webhook[];
+  private allowedHosts: Set<string>;
+  private maxAttempts: number;
+  private backoffMs: number;
+  private timeoutMs: number;
+
+  constructor(opts: WebhookOptions = {}) {
+    this.global = opts.global ?? [];
+    this.allowedHosts = new Set((opts.allowedHosts ?? []).map((h) => h.toLowerCase()));
+    this.maxAttempts = opts.maxAttempts ?? 5;
+    this.backoffMs = opts.backoffMs ?? 1000;
+    this.timeoutMs = opts.timeoutMs ?? 5000;
+  }
+
+  // fire and forget: deliveries run in the background
+  emit(room: Room, event: WebhookEvent, data: Record<string, unknown> = {}) {
+    const wanted = (h: Webhook) => !h.events || h.events.includes(event);
+    const hooks = [
+      ...this.global.filter(wanted).map((hook) => ({ hook, guarded: false })),
+      ...(room.webhooks ?? []).filter(wanted).map((hook) => ({ hook, guarded: true })),
+    ];
+    // room.deleted goes out once the room is gone: nobody can list its log any more
+    const log = hooks.length && event !== 'room.deleted' ? this.logFor(room.code) : undefined;
+    const at = Date.now();
+    for (const { hook, guarded } of hooks) {
+      const payload: WebhookPayload = { id: crypto.randomUUID(), event, roomCode: room.code, at, data };
+      const p = this.deliver(hook, payload, guarded, log).catch((e) => {
+        // eslint-disable-next-line no-console
+        console.error(`webhook ${hook.url} failed`, e);
+      });
+      this.inflight.add(p);
+      p.finally(() => this.inflight.delete(p));
+    }
+  }
+
+  // newest last
+  deliveries(code: string) {
+    return [...(this.logs.get(code) ?? [])];
+  }
+
+  deadLetters(code?: string) {
+    return this.dead.filter((d) => code == null || d.roomCode === code);
+  }
+
+  // room deleted: forget its log and dead letters (retries still running
+  // finish without logging)
+  drop(code: string) {
+    this.logs.delete(code);
+    this.dead = this.dead.filter((d) => d.roomCode !== code);
+  }
+
+  // central:addWebhook: throws E_WEBHOOK_FORBIDDEN for an internal address,
+  // E_INVALID_PAYLOAD when the host doesn't resolve
+  async checkUrl(url: string) {
+    let internal: boolean;
+    try {
+      internal = await this.internal(url);
+    } catch {
+      throw new Error('E_INVALID_PAYLOAD');
+    }
+    if (internal) throw new Error('E_WEBHOOK_FORBIDDEN');
+  }
+
+  // resolves once nothing is being delivered or waiting for a retry
+  async idle() {
+    while (this.inflight.size) await Promise.all([...this.inflight]);
+  }
+
+  // any address the host resolves to is internal (DNS errors are thrown)
+  private async internal(url: string) {
+    const host = hostOf(url);
+    if (this.allowedHosts.has(host)) return false;
+    const addrs = await lookup(host, { all: true, verbatim: true });
+    return addrs.some((a) => INTERNAL.check(a.address, a.family === 6 ? 'ipv6' : 'ipv4'));
+  }
+
+  private logFor(code: string) {
+    let log = this.logs.get(code);
+    if (!log) this.logs.set(code, (log = []));
+    return log;
+  }
+
+  private record(d: WebhookDelivery, log?: WebhookDelivery[]) {
+    if (!log) return;
+    log.push(d);
+    if (log.length > LOG_MAX) log.splice(0, log.length - LOG_MAX);
+  }
+
+  // guarded: a room hook, re-checked before each attempt (DNS may have changed)
+  private async deliver(hook: Webhook, payload: WebhookPayload, guarded: boolean, log?: WebhookDelivery[]) {
+    const body = JSON.stringify(payload);
+    for (let attempt = 1; attempt <= this.maxAttempts; attempt++) {
+      const d: WebhookDelivery = {
+        id: payload.id,
+        hookId: hook.id,
+        url: hook.url,
+        event: payload.event,
+        roomCode: payload.roomCode,
+        attempt,
+        at: Date.now(),
+        ok: false,
+      };
+      let blocked = false;
+      try {
+        blocked = guarded && (await this.internal(hook.url));
+        if (blocked) throw new Error('blocked: internal address');
+        const timestamp = Date.now();
+        const res = await fetch(hook.url, {
+          method: 'POST',
+          headers: {
+            'content-type': 'application/json',
+            'x-webhook-event': payload.event,
+            'x-webhook-id': payload.id,
+            [TIMESTAMP_HEADER]: String(timestamp),
+            [SIGNATURE_HEADER]: signWebhook(hook.secret, timestamp, body),
+          },
+          body,
+          redirect: 'manual',
+          signal: AbortSignal.timeout(this.timeoutMs),
+        });
+        d.status = res.status;
+        d.ok = res.ok;
+        if (res.status >= 300 && res.status < 400) d.error = 'redirect not followed';
+        // the body is never read: let the connection go
+        await res.body?.cancel();
+      } catch (e: any) {
+        d.error = e?.name === 'TimeoutError' ? 'timeout' : String(e?.message ?? e);
+      }
+      this.record(d, log);
+      if (d.ok) return;
+      if (blocked || !retryable(d.status) || attempt === this.maxAttempts) {
+        this.dead.push(d);
+        if (this.dead.length > DEAD_MAX) this.dead.splice(0, this.dead.length - DEAD_MAX);
+        return;
+      }
+      await sleep(this.backoffMs * 2 ** (attempt - 1));
+    }
+  }
+}
+
+// what central gets back when listing hooks: no secrets
+export function publicWebhook({ secret: _secret, ...hook }: Webhook) {
+  return hook;
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import express from 'express';
+import { Server } from 'socket.io';
+import { bindSocket } from '../src/socket.js';
+import { createApiRouter } from '../src/api.js';
+import { signClientId, CLIENT_ID_COOKIE, CLIENT_SIG_COOKIE } from '../src/auth.js';
+import { setAuditStore } from '../src/audit.js';
+import type { RedisStore } from '../src/redisStore.js';
+
+describe('REST api', () => {
+  let server: http.Server;
+  let io: Server;
+  let base = '';
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    server = http.createServer(app);
+    io = new Server(server);
+    app.use('/api', createApiRouter(bindSocket(io)));
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+  });
+  afterAll(async () => {
+    await new Promise((resolve) => io.close(resolve));
+  });
+
+  const call = async (clientId: string, method: string, path: string, body?: object) => {
+    const res = await fetch(base + path, {
+      method,
+      headers: { 'content-type': 'application/json', 'x-client-id': clientId, 'x-client-sig': signClientId(clientId) },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    return { status: res.status, json: (await res.json()) as any };
+  };
+
+  it('runs a room through the shared commands with HTTP statuses', async () => {
+    const created = await call('central-1', 'POST', '/rooms', { stationsCount: 2, roundDurationSec: 60 });
+    expect(created.status).toBe(201);
+    expect(created.json.recoveryCode).toEqual(expect.any(String));
+    const code = created.json.room.code as string;
+
+    expect((await call('central-1', 'POST', `/rooms/${code}/pause`)).json.error.code).toBe('E_BAD_STATE');
+    expect((await call('central-1', 'POST', `/rooms/${code}/pause`)).status).toBe(409);
+    expect((await call('client-a', 'POST', `/rooms/${code}/start`, { force: true })).status).toBe(403);
+    expect((await call('central-1', 'POST', '/rooms/NOPE1/start')).status).toBe(404);
+
+    const config = await call('central-1', 'PUT', `/rooms/${code}/config`, { stationsCount: 3, roundDurationSec: 90 });
+    expect(config.json.room).toMatchObject({ stationsCount: 3, roundDurationSec: 90 });
+    expect((await call('central-1', 'PUT', `/rooms/${code}/config`, { stationsCount: 0 })).status).toBe(400);
+
+    const view = await call('client-a', 'GET', `/rooms/${code}`);
+    expect(view.json.room.centralClientId).toBeUndefined();
+
+    expect((await call('central-1', 'DELETE', `/rooms/${code}/stations/abc`)).status).toBe(400);
+    expect((await call('central-1', 'DELETE', `/rooms/${code}/stations/1.5`)).status).toBe(400);
+    expect((await call('central-1', 'DELETE', `/rooms/${code}/stations/3`)).json).toEqual({ ok: true, compacted: true });
+    expect((await call('central-1', 'DELETE', `/rooms/${code}`)).status).toBe(200);
+    expect((await call('central-1', 'GET', `/rooms/${code}`)).status).toBe(404);
+  });
+
+  it('rejects unsigned callers', async () => {
+    const res = await fetch(`${base}/rooms/ABCDE`, { headers: { 'x-client-id': 'client-a', 'x-client-sig': 'beef' } });
+    expect(res.status).toBe(401);
+  });
+
+  it('answers 500 when the audit store cannot be read', async () => {
+    const code = (await call('central-2', 'POST', '/rooms', { stationsCount: 1, roundDurationSec: 60 })).json.room.code;
+    setAuditStore({ loadAudit: () => Promise.reject(new Error('connection lost')) } as unknown as RedisStore);
+    try {
+      const res = await call('central-2', 'GET', `/rooms/${code}/audit`);
+      expect(res).toEqual({ status: 500, json: { ok: false, error: { code: 'E_INTERNAL' } } });
+    } finally {
+      setAuditStore(undefined);
+    }
+    expect((await call('central-2', 'GET', `/rooms/${code}/audit`)).status).toBe(200);
+  });
+
+  it('refuses cookie-only requests that are not JSON (cross-site form posts)', async () => {
+    const code = (await call('central-3', 'POST', '/rooms', { stationsCount: 1, roundDurationSec: 60 })).json.room.code;
+    const cookie = `${CLIENT_ID_COOKIE}=central-3; ${CLIENT_SIG_COOKIE}=${signClientId('central-3')}`;
+    const post = (contentType: string) =>
+      fetch(`${base}/rooms/${code}/start`, {
+        method: 'POST',
+        headers: { cookie, 'content-type': contentType },
+        body: 'force=true',
+      });
+
+    const forged = await post('text/plain');
+    expect(forged.status).toBe(415);
+    expect(await forged.json()).toEqual({ ok: false, error: { code: 'E_JSON_REQUIRED' } });
+    expect((await post('application/x-www-form-urlencoded')).status).toBe(415);
+    expect((await call('central-3', 'GET', `/rooms/${code}`)).json.room.state).toBe('WAITING');
+
+    // same cookies, JSON: goes through
+    const created = await fetch(`${base}/rooms`, {
+      method: 'POST',
+      headers: { cookie, 'content-type': 'application/json' },
+      body: JSON.stringify({ stationsCount: 1, roundDurationSec: 60 }),
+    });
+    expect(created.status).toBe(201);
+  });
+});
@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { AUDIT_MAX, audit, auditToCsv, dropAudit, readAudit } from '../src/audit.js';
+
+describe('audit log', () => {
+  it('keeps the newest AUDIT_MAX entries per room', async () => {
+    for (let i = 0; i < AUDIT_MAX + 5; i++) audit('AUD1', 'central-1', 'round.paused', { i });
+    audit('AUD2', 'client-a', 'station.joined');
+    const log = await readAudit('AUD1');
+    expect(log).toHaveLength(AUDIT_MAX);
+    expect(log[0]).toMatchObject({ actor: 'central-1', type: 'round.paused', data: { i: 5 } });
+    expect(await readAudit('AUD2')).toHaveLength(1);
+
+    dropAudit('AUD1');
+    expect(await readAudit('AUD1')).toEqual([]);
+  });
+
+  it('exports CSV with quoted data', () => {
+    const csv = auditToCsv([{ at: 0, type: 'station.renumbered', actor: 'c,1', data: { oldId: 3, newId: 2 } }]);
+    expect(csv).toBe(
+      'at,type,actor,data\r\n' + '1970-01-01T00:00:00.000Z,station.renumbered,"c,1","{""oldId"":3,""newId"":2}"\r\n'
+    );
+  });
+});
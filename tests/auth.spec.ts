@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { signClientId, verifyClientSig, resolveClientId, parseUntil } from '../src/auth.js';
+
+describe('signed client identity', () => {
+  const id = 'client-a';
+  const sig = signClientId(id);
+
+  it('verifies own signature, rejects forged ones', () => {
+    expect(verifyClientSig(id, sig)).toBe(true);
+    expect(verifyClientSig('client-b', sig)).toBe(false);
+    expect(verifyClientSig(id, 'deadbeef')).toBe(false);
+    expect(verifyClientSig(id, 'not-hex')).toBe(false);
+  });
+
+  it('handshake: auth payload, cookies, headers', () => {
+    expect(resolveClientId({ auth: { clientId: id, clientSig: sig }, headers: {} })).toBe(id);
+    expect(
+      resolveClientId({ auth: {}, headers: { cookie: `st_clientId=${id}; st_clientSig=${sig}` } })
+    ).toBe(id);
+    expect(resolveClientId({ headers: { 'x-client-id': id, 'x-client-sig': sig } })).toBe(id);
+  });
+
+  it('handshake: missing id / forged id', () => {
+    expect(() => resolveClientId({ auth: {}, headers: {} })).toThrow('E_INVALID_PAYLOAD');
+    expect(() => resolveClientId({ auth: { clientId: 'central-1' }, headers: {} })).toThrow('E_BAD_SIGNATURE');
+    expect(() =>
+      resolveClientId({ auth: { clientId: 'central-1', clientSig: sig }, headers: {} })
+    ).toThrow('E_BAD_SIGNATURE');
+  });
+
+  it('previous secret window: an end date is required, bad dates refused', () => {
+    expect(() => parseUntil(undefined)).toThrow('SIGNING_SECRET_PREVIOUS_UNTIL is required');
+    expect(() => parseUntil('')).toThrow('SIGNING_SECRET_PREVIOUS_UNTIL is required');
+    expect(parseUntil('1767225600000')).toBe(1767225600000);
+    expect(parseUntil('2026-01-01T00:00:00Z')).toBe(Date.parse('2026-01-01T00:00:00Z'));
+    expect(() => parseUntil('2026-13-45')).toThrow('SIGNING_SECRET_PREVIOUS_UNTIL');
+  });
+});
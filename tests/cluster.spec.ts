@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Cluster, INSTANCE_ID } from '../src/cluster.js';
+import { RedisStore } from '../src/redisStore.js';
+import { createRoom, getRoom } from '../src/roomStore.js';
+import type { Room } from '../src/types.js';
+import { audit, readAudit } from '../src/audit.js';
+import { FakeRedis } from './fakeRedis.js';
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('cluster', () => {
+  let redis: FakeRedis;
+  let cluster: Cluster;
+
+  beforeEach(() => {
+    redis = new FakeRedis();
+    cluster = new Cluster(redis.asRedis(), new RedisStore(redis.asRedis(), INSTANCE_ID));
+  });
+  afterEach(() => {
+    cluster.stop();
+    vi.useRealTimers();
+  });
+
+  it('room lease: acquire, renew, steal only after expiry, release', async () => {
+    vi.useFakeTimers();
+    await redis.set('lease:room:AAAAAA', 'other-instance', 'PX', 6000);
+    expect(await cluster.claim('AAAAAA')).toBe(false);
+    expect(cluster.isDriver('AAAAAA')).toBe(false);
+
+    vi.advanceTimersByTime(6001); // owner stopped renewing
+    expect(await cluster.claim('AAAAAA')).toBe(true);
+    expect(cluster.isDriver('AAAAAA')).toBe(true);
+
+    // renewing keeps it past the first lease's end
+    vi.advanceTimersByTime(5000);
+    expect(await cluster.claim('AAAAAA')).toBe(true);
+    vi.advanceTimersByTime(5000);
+    expect(await redis.get('lease:room:AAAAAA')).toBe(INSTANCE_ID);
+
+    await cluster.release('AAAAAA');
+    expect(cluster.isDriver('AAAAAA')).toBe(false);
+    expect(await redis.get('lease:room:AAAAAA')).toBeNull();
+
+    // never releases someone else's lease
+    await redis.set('lease:room:BBBBBB', 'other-instance', 'PX', 6000);
+    await cluster.release('BBBBBB');
+    expect(await redis.get('lease:room:BBBBBB')).toBe('other-instance');
+  });
+
+  it('heartbeat: peers are the other live instances', async () => {
+    await cluster.start();
+    expect(await redis.get(`instance:${INSTANCE_ID}`)).toBe('1');
+    expect(await cluster.hasPeers()).toBe(false);
+    await redis.set('instance:other-instance', '1', 'PX', 6000);
+    expect(await cluster.hasPeers()).toBe(true);
+  });
+
+  it('applies and drops rooms another instance saved or deleted', async () => {
+    const synced: Array<[string, Room | undefined]> = [];
+    cluster.onRoomSynced((code, room) => synced.push([code, room]));
+    await cluster.start();
+
+    const local = createRoom('central-1', 2, 60);
+    const other = new RedisStore(redis.asRedis(), 'other-instance');
+    const version = local.version! + 1;
+    await other.saveRoom({ ...local, stations: new Map(local.stations), bindings: new Map(), roundDurationSec: 90, version }, 0);
+    await flush();
+    // merged into the object this instance already holds
+    expect(getRoom(local.code)).toBe(local);
+    expect(local.roundDurationSec).toBe(90);
+    expect(synced).toEqual([[local.code, local]]);
+
+    // our own messages are ignored
+    await new RedisStore(redis.asRedis(), INSTANCE_ID).saveRoom({ ...local, roundDurationSec: 120, version: version + 1 }, version);
+    await flush();
+    expect(local.roundDurationSec).toBe(90);
+
+    audit(local.code, 'central-1', 'round.paused');
+    await other.deleteRoom(local.code);
+    await flush();
+    expect(getRoom(local.code)).toBeUndefined();
+    expect(await readAudit(local.code)).toEqual([]);
+    expect(synced.at(-1)).toEqual([local.code, undefined]);
+  });
+});
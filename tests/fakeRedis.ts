@@ -0,0 +1,131 @@
+// In-memory stand-in for the few ioredis calls RedisStore and Cluster make.
+// Expiry follows Date.now() (works with fake timers); eval understands the
+// lease and save scripts by what they do, not by running Lua.
+import type { Redis } from 'ioredis';
+
+type Listener = (channel: string, message: string) => void;
+
+export class FakeRedis {
+  strings = new Map<string, { value: string; expiresAt?: number }>();
+  lists = new Map<string, string[]>();
+  published: Array<[string, string]> = [];
+  private subscribers: Array<{ channels: Set<string>; listeners: Listener[] }> = [];
+
+  private live(key: string) {
+    const e = this.strings.get(key);
+    if (e?.expiresAt != null && e.expiresAt <= Date.now()) {
+      this.strings.delete(key);
+      return undefined;
+    }
+    return e;
+  }
+
+  async get(key: string) {
+    return this.live(key)?.value ?? null;
+  }
+
+  async set(key: string, value: string, px?: 'PX', ms?: number) {
+    this.strings.set(key, { value, expiresAt: px ? Date.now() + ms! : undefined });
+    return 'OK';
+  }
+
+  async setex(key: string, sec: number, value: string) {
+    this.strings.set(key, { value, expiresAt: Date.now() + sec * 1000 });
+    return 'OK';
+  }
+
+  async del(key: string) {
+    const had = this.strings.delete(key) || this.lists.delete(key);
+    return had ? 1 : 0;
+  }
+
+  async expire() {
+    return 1;
+  }
+
+  async rpush(key: string, value: string) {
+    const list = this.lists.get(key) ?? [];
+    list.push(value);
+    this.lists.set(key, list);
+    return list.length;
+  }
+
+  async ltrim(key: string, start: number, stop: number) {
+    const list = this.lists.get(key) ?? [];
+    this.lists.set(key, list.slice(start < 0 ? Math.max(0, list.length + start) : start, stop === -1 ? undefined : stop + 1));
+    return 'OK';
+  }
+
+  async lrange(key: string) {
+    return [...(this.lists.get(key) ?? [])];
+  }
+
+  // one page holding every match
+  async scan(_cursor: string, _match: 'MATCH', pattern: string) {
+    const prefix = pattern.replace(/\*$/, '');
+    const keys = [...this.strings.keys()].filter((k) => k.startsWith(prefix) && this.live(k));
+    return ['0', keys] as [string, string[]];
+  }
+
+  async publish(channel: string, message: string) {
+    this.published.push([channel, message]);
+    for (const s of this.subscribers) {
+      if (s.channels.has(channel)) for (const l of s.listeners) l(channel, message);
+    }
+    return 1;
+  }
+
+  // lease scripts: acquire (free or ours -> set/extend) / release (ours -> delete);
+  // save script: set + publish while the stored version is the expected one
+  async eval(script: string, _numKeys: number, key: string, ...args: Array<string | number>) {
+    const cur = this.live(key)?.value ?? null; // read and write in the same turn, like a script
+    if (script.includes('SETEX')) {
+      const [expected, ttl, value, channel, message] = args;
+      let version = 0;
+      try {
+        version = Number(JSON.parse(cur ?? '{}').version ?? 0);
+      } catch {
+        // unreadable record: version 0
+      }
+      if (version !== Number(expected)) return 0;
+      await this.setex(key, Number(ttl), String(value));
+      await this.publish(String(channel), String(message));
+      return 1;
+    }
+    const [owner, ms] = args.map(String);
+    if (script.includes('PEXPIRE')) {
+      if (cur != null && cur !== owner) return 0;
+      await this.set(key, owner, 'PX', Number(ms));
+      return 1;
+    }
+    if (cur !== owner) return 0;
+    return this.del(key);
+  }
+
+  // queued calls run right away; exec just resolves
+  multi() {
+    const chain: Record<string, (...args: any[]) => unknown> = {};
+    for (const name of ['setex', 'del', 'publish', 'rpush', 'ltrim', 'expire']) {
+      chain[name] = (...args: any[]) => {
+        void (this as any)[name](...args);
+        return chain;
+      };
+    }
+    chain.exec = async () => [];
+    return chain;
+  }
+
+  // a subscriber connection on the same in-memory bus
+  duplicate() {
+    const sub = { channels: new Set<string>(), listeners: [] as Listener[] };
+    this.subscribers.push(sub);
+    return {
+      on: (_event: 'message', fn: Listener) => sub.listeners.push(fn),
+      subscribe: async (channel: string) => sub.channels.add(channel),
+    };
+  }
+
+  asRedis() {
+    return this as unknown as Redis;
+  }
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createRoom, claimStation, setReady, startRound, tick, pauseRound, resumeRound, immediateEnd, resetToWaiting, swapStations, assignStation } from '../src/roomStore.js';
+import { sessionReport } from '../src/history.js';
+
+describe('round history', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00.000Z'));
+  });
+  afterEach(() => vi.useRealTimers());
+
+  const readyRoom = () => {
+    const room = createRoom('central-1', 2, 60);
+    claimStation(room, 'client-a', 1);
+    claimStation(room, 'client-b', 2);
+    setReady(room, 'client-a', true);
+    vi.advanceTimersByTime(2000);
+    setReady(room, 'client-b', true);
+    return room;
+  };
+  const noop = { onCue: () => {}, onTimeUp: () => {} };
+
+  it('records a timed-out round with its pauses and ready times', () => {
+    const room = readyRoom();
+    const t0 = Date.now();
+    startRound(room);
+    vi.advanceTimersByTime(10_000);
+    pauseRound(room);
+    vi.advanceTimersByTime(5_000);
+    resumeRound(room);
+    vi.advanceTimersByTime(50_000);
+    tick(room, noop);
+    expect(room.state).toBe('ENDED');
+
+    const [r] = room.history!;
+    expect(r).toMatchObject({
+      round: 1,
+      startedAt: t0,
+      plannedSec: 60,
+      actualSec: 60,
+      pausedSec: 5,
+      endReason: 'timeout',
+    });
+    expect(r.stations).toEqual([
+      { stationId: 1, clientId: 'client-a', readyAt: t0 - 2000 },
+      { stationId: 2, clientId: 'client-b', readyAt: t0 },
+    ]);
+    resetToWaiting(room); // already recorded
+    expect(room.history).toHaveLength(1);
+  });
+
+  it('tells skips from resets and totals them', () => {
+    const room = readyRoom();
+    startRound(room);
+    vi.advanceTimersByTime(20_000);
+    immediateEnd(room);
+    resetToWaiting(room);
+
+    setReady(room, 'client-a', true);
+    setReady(room, 'client-b', true);
+    startRound(room);
+    vi.advanceTimersByTime(5_000);
+    pauseRound(room);
+    vi.advanceTimersByTime(3_000);
+    resetToWaiting(room);
+
+    const report = sessionReport(room);
+    expect(report.rounds.map((r) => [r.round, r.endReason, r.actualSec, r.pausedSec])).toEqual([
+      [1, 'skip', 20, 0],
+      [2, 'reset', 5, 3],
+    ]);
+    expect(report.totals).toEqual({
+      rounds: 2,
+      plannedSec: 120,
+      actualSec: 25,
+      pausedSec: 3,
+      endReasons: { skip: 1, reset: 1 },
+    });
+  });
+
+  it('ready times follow the client on swap and leave with it on assign', () => {
+    const room = createRoom('central-1', 2, 60);
+    claimStation(room, 'client-a', 1);
+    claimStation(room, 'client-b', 2);
+    setReady(room, 'client-a', true);
+    const readyA = Date.now();
+    vi.advanceTimersByTime(2000);
+
+    swapStations(room, 1, 2);
+    expect(room.stations.get(2)).toMatchObject({ ownerClientId: 'client-a', readyAt: readyA });
+    expect(room.stations.get(1)!.readyAt).toBeUndefined();
+
+    assignStation(room, 'client-c', 2, true); // client-a is moved out
+    expect(room.stations.get(2)!.readyAt).toBeUndefined();
+
+    setReady(room, 'client-b', true);
+    const readyB = Date.now();
+    vi.advanceTimersByTime(1000);
+    setReady(room, 'client-c', true);
+    startRound(room);
+    immediateEnd(room);
+    expect(room.history![0].stations).toEqual([
+      { stationId: 1, clientId: 'client-b', readyAt: readyB },
+      { stationId: 2, clientId: 'client-c', readyAt: readyB + 1000 },
+    ]);
+  });
+});
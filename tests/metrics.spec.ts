@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { Counter, Histogram, rateLimited, renderMetrics } from '../src/metrics.js';
+import { rateLimit } from '../src/rateLimit.js';
+
+describe('metrics', () => {
+  it('renders counters and histograms in Prometheus text format', () => {
+    const errors = new Counter('test_errors_total', 'Test errors.');
+    errors.inc({ event: 'central:startRound', code: 'E_BAD_STATE' });
+    errors.inc({ code: 'E_BAD_STATE', event: 'central:startRound' });
+    errors.inc({ event: 'say "hi"', code: 'E_X' });
+    const lag = new Histogram('test_lag_seconds', 'Test lag.', [0.01, 0.1]);
+    lag.observe(0.005);
+    lag.observe(0.05);
+    lag.observe(3);
+
+    const text = renderMetrics();
+    expect(text).toContain(
+      [
+        '# HELP test_errors_total Test errors.',
+        '# TYPE test_errors_total counter',
+        'test_errors_total{event="central:startRound",code="E_BAD_STATE"} 2',
+        'test_errors_total{event="say \\"hi\\"",code="E_X"} 1',
+      ].join('\n')
+    );
+    expect(text).toContain(
+      [
+        'test_lag_seconds_bucket{le="0.01"} 1',
+        'test_lag_seconds_bucket{le="0.1"} 2',
+        'test_lag_seconds_bucket{le="+Inf"} 3',
+        'test_lag_seconds_sum 3.055',
+        'test_lag_seconds_count 3',
+      ].join('\n')
+    );
+  });
+
+  it('counts rate-limit rejections', () => {
+    const before = rateLimited.get();
+    for (let i = 0; i < 12; i++) rateLimit('METRICS1');
+    expect(rateLimited.get() - before).toBe(2);
+  });
+});
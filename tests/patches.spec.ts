@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { createRoom, claimStation, setReady, releaseStation, assignStation } from '../src/roomStore.js';
+import { nextBroadcast } from '../src/patches.js';
+
+const viewer = (b: ReturnType<typeof nextBroadcast>, clientId: string) =>
+  b.viewers.find((v) => v.clientId === clientId)?.update;
+
+describe('room patches', () => {
+  it('first broadcast is a full snapshot, later ones only the changes', () => {
+    const room = createRoom('central-1', 3, 60);
+    const first = nextBroadcast(room);
+    expect(first.public.patch).toBeUndefined();
+    expect(first.public.snapshot.stations).toHaveLength(3);
+
+    claimStation(room, 'client-a', 2);
+    setReady(room, 'client-a', true);
+    const next = nextBroadcast(room);
+    const patch = next.public.patch!;
+    expect(patch.prevVersion).toBe(first.public.snapshot.version);
+    expect(patch.version).toBe(first.public.snapshot.version + 2);
+    expect(patch.changes.stations).toEqual({
+      2: { ready: true, connected: true, claimed: true, lastSeenAt: expect.any(Number) },
+    });
+    expect(patch.changes.readyCount).toBe(1);
+    expect(patch.changes.code).toBeUndefined();
+
+    // hosts see client ids, the station holder its own seat
+    expect(viewer(next, 'central-1')!.patch!.changes.stations).toMatchObject({ 2: { ownerClientId: 'client-a' } });
+    expect(viewer(next, 'client-a')!.patch!.changes.stations).toMatchObject({ 2: { claimed: true, isYou: true } });
+    expect(viewer(next, 'client-a')!.snapshot.stations[1]).toMatchObject({ isYou: true });
+  });
+
+  it('public view never carries client ids', () => {
+    const room = createRoom('central-1', 2, 60);
+    claimStation(room, 'client-a', 1);
+    const { snapshot } = nextBroadcast(room).public;
+    expect(JSON.stringify(snapshot)).not.toContain('client-a');
+    expect(JSON.stringify(snapshot)).not.toContain('central-1');
+    expect(snapshot.stations[0]).toMatchObject({ claimed: true, isYou: false });
+  });
+
+  it('moving a client flips isYou in its personal patch only', () => {
+    const room = createRoom('central-1', 3, 60);
+    claimStation(room, 'client-a', 1);
+    nextBroadcast(room);
+    assignStation(room, 'client-a', 3, true);
+    const b = nextBroadcast(room);
+    expect(viewer(b, 'client-a')!.patch!.changes.stations).toMatchObject({ 1: { isYou: false }, 3: { isYou: true } });
+    expect(JSON.stringify(b.public.patch)).not.toContain('isYou');
+  });
+
+  it('removed stations are null, unchanged rooms send nothing', () => {
+    const room = createRoom('central-1', 3, 60);
+    claimStation(room, 'client-a', 3);
+    nextBroadcast(room);
+    expect(nextBroadcast(room).public.patch).toBeNull();
+
+    releaseStation(room, 'client-a'); // WAITING: tail compacts to 0 stations
+    const b = nextBroadcast(room);
+    expect(b.public.patch!.changes.stations).toEqual({ 1: null, 2: null, 3: null });
+    expect(b.public.patch!.changes.stationsCount).toBe(0);
+    expect(viewer(b, 'client-a')!.patch!.changes.stations).toEqual({ 1: null, 2: null, 3: null });
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { createRoom, setCoHost, transferCentral, rotateDisplayToken } from '../src/roomStore.js';
+import { assertCan, assertOwner, can, checkDisplayToken } from '../src/permissions.js';
+
+describe('permissions', () => {
+  it('owner can do everything, co-hosts only what was granted', () => {
+    const room = createRoom('owner', 2, 60);
+    setCoHost(room, 'invigilator', ['pauseRound', 'resumeRound']);
+    expect(can(room, 'owner', 'deleteRoom')).toBe(true);
+    expect(can(room, 'invigilator', 'pauseRound')).toBe(true);
+    expect(() => assertCan(room, 'invigilator', 'deleteRoom')).toThrow('E_FORBIDDEN');
+    expect(() => assertCan(room, 'station-a', 'pauseRound')).toThrow('E_NOT_CENTRAL');
+    expect(() => assertOwner(room, 'invigilator')).toThrow('E_NOT_CENTRAL');
+    expect(() => setCoHost(room, 'owner', ['pauseRound'])).toThrow('E_INVALID_PAYLOAD');
+
+    transferCentral(room, 'invigilator', true);
+    expect(room.coHosts).toBeUndefined();
+    expect(can(room, 'owner', 'pauseRound')).toBe(false);
+
+    setCoHost(room, 'owner', ['adjustTime']);
+    setCoHost(room, 'owner', null);
+    expect(room.coHosts).toBeUndefined();
+  });
+
+  it('display token verifies until rotated', () => {
+    const room = createRoom('owner', 2, 60);
+    const token = room.displayToken!;
+    expect(checkDisplayToken(room, token)).toBe(true);
+    expect(checkDisplayToken(room, 'nope')).toBe(false);
+    rotateDisplayToken(room);
+    expect(checkDisplayToken(room, token)).toBe(false);
+  });
+});
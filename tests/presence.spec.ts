@@ -0,0 +1,32 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { addSocket, removeSocket, afterGrace, liveSockets, DISCONNECT_GRACE_MS } from '../src/presence.js';
+
+describe('presence', () => {
+  beforeEach(() => vi.useFakeTimers());
+  afterEach(() => vi.useRealTimers());
+
+  it('second tab keeps the client online', () => {
+    expect(addSocket('P1', 'client-a', 's1')).toBe(true);
+    expect(addSocket('P1', 'client-a', 's2')).toBe(false);
+    expect(removeSocket('P1', 'client-a', 's1')).toBe(false);
+    expect(liveSockets('P1', 'client-a')).toEqual(['s2']);
+    expect(removeSocket('P1', 'client-a', 's2')).toBe(true);
+    expect(removeSocket('P1', 'client-a', 's2')).toBe(false);
+  });
+
+  it('disconnect is announced only after the grace period, not on a quick reconnect', () => {
+    const gone = vi.fn();
+    addSocket('P2', 'client-a', 's1');
+    removeSocket('P2', 'client-a', 's1');
+    afterGrace('P2', 'client-a', gone);
+    vi.advanceTimersByTime(DISCONNECT_GRACE_MS - 1);
+    addSocket('P2', 'client-a', 's2'); // reconnected in time
+    vi.advanceTimersByTime(DISCONNECT_GRACE_MS);
+    expect(gone).not.toHaveBeenCalled();
+
+    removeSocket('P2', 'client-a', 's2');
+    afterGrace('P2', 'client-a', gone);
+    vi.advanceTimersByTime(DISCONNECT_GRACE_MS);
+    expect(gone).toHaveBeenCalledTimes(1);
+  });
+});
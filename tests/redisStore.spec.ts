@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RedisStore } from '../src/redisStore.js';
+import { setRoomStore, createRoom, claimStation, setReady, startRound, restoreRooms, getRoom, pauseRound, savesIdle, applyRemoteRoom, onRoomMerged } from '../src/roomStore.js';
+import type { Room } from '../src/types.js';
+import { FakeRedis } from './fakeRedis.js';
+
+describe('room persistence', () => {
+  let redis: FakeRedis;
+  let store: RedisStore;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00.000Z'));
+    redis = new FakeRedis();
+    store = new RedisStore(redis.asRedis(), 'instance-a');
+    setRoomStore(store);
+  });
+  afterEach(() => {
+    setRoomStore(undefined);
+    vi.useRealTimers();
+  });
+
+  it('saves every mutation and round-trips Maps through JSON', async () => {
+    const room = createRoom('central-1', 2, 60);
+    claimStation(room, 'client-a', 2);
+    await savesIdle();
+    expect(await store.listRoomCodes()).toContain(room.code);
+    expect(redis.published.at(-1)).toEqual(['sync:rooms', JSON.stringify({ origin: 'instance-a', code: room.code })]);
+
+    const loaded = (await store.loadRoom(room.code))!;
+    expect(loaded.version).toBe(room.version);
+    expect(loaded.stations.get(2)).toMatchObject({ ownerClientId: 'client-a', connected: true });
+    expect(loaded.bindings.get('client-a')).toBe(2);
+  });
+
+  it('restores a RUNNING room with the time it has left, presence reset', async () => {
+    const room = createRoom('central-1', 1, 60);
+    claimStation(room, 'client-a', 1);
+    setReady(room, 'client-a', true);
+    startRound(room);
+    const paused = createRoom('central-2', 1, 60);
+    claimStation(paused, 'client-b', 1);
+    setReady(paused, 'client-b', true);
+    startRound(paused);
+    vi.advanceTimersByTime(5_000);
+    pauseRound(paused);
+    await savesIdle();
+
+    vi.advanceTimersByTime(20_000); // process restarted meanwhile
+    const restored = await restoreRooms();
+    expect(restored.map((r) => r.code)).toEqual(expect.arrayContaining([room.code, paused.code]));
+
+    const back = getRoom(room.code)!;
+    expect(back).not.toBe(room);
+    expect(back.state).toBe('RUNNING');
+    expect(back.timeLeft).toBe(35); // 25s since the start
+    expect(back.stations.get(1)).toMatchObject({ ownerClientId: 'client-a', connected: false });
+    expect(back.centralConnected).toBe(false);
+    expect(getRoom(paused.code)!).toMatchObject({ state: 'PAUSED', timeLeft: 55 });
+  });
+
+  it('skips unreadable records', async () => {
+    await redis.setex('rooms:BROKEN', 60, '{nope');
+    expect(await store.loadRoom('BROKEN')).toBeNull();
+    expect((await store.loadAllRooms()).some((r) => r.code === 'BROKEN')).toBe(false);
+  });
+
+  it('only saves on top of the version it last saw', async () => {
+    const room = createRoom('central-1', 1, 60);
+    await savesIdle();
+    const other = new RedisStore(redis.asRedis(), 'instance-b');
+    expect(await other.saveRoom({ ...room, version: 5 }, 0)).toBe(false);
+    expect(await other.saveRoom({ ...room, version: 5 }, room.version!)).toBe(true);
+    expect((await store.loadRoom(room.code))!.version).toBe(5);
+  });
+
+  it('merges a concurrent save from another instance instead of overwriting it', async () => {
+    const merged: Room[] = [];
+    onRoomMerged((r) => merged.push(r));
+    const room = createRoom('central-1', 2, 60);
+    claimStation(room, 'client-a', 1);
+    claimStation(room, 'client-b', 2);
+    await savesIdle();
+    const seen = room.version!;
+
+    // instance B: client-b pressed ready and B saved first
+    const other = new RedisStore(redis.asRedis(), 'instance-b');
+    const theirs = (await other.loadRoom(room.code))!;
+    setReady(theirs, 'client-b', true);
+    expect(await other.saveRoom({ ...theirs, version: seen + 1 }, seen)).toBe(true);
+
+    // here: client-a pressed ready at the same time
+    setReady(room, 'client-a', true);
+    await savesIdle();
+
+    expect(merged).toEqual([room]);
+    expect(room.stations.get(1)!.ready).toBe(true);
+    expect(room.stations.get(2)!.ready).toBe(true);
+    const stored = (await store.loadRoom(room.code))!;
+    expect(stored.version).toBe(room.version);
+    expect(room.version).toBeGreaterThan(seen + 1);
+    expect([stored.stations.get(1)!.ready, stored.stations.get(2)!.ready]).toEqual([true, true]);
+
+    // B's sync message arriving late doesn't roll the room back
+    applyRemoteRoom({ ...theirs, version: seen + 1 });
+    expect(room.stations.get(1)!.ready).toBe(true);
+  });
+});
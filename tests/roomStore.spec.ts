@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { createRoom, claimStation, setReady, allClaimedAndReady, startRound, tick, resetToWaiting, updateConfig } from '../src/roomStore.js';
+import { createRoom, claimStation, setReady, allClaimedAndReady, startRound, tick, resetToWaiting, updateConfig, immediateEnd, advanceSession, beginNextRound, inTransition, stopRound, resumeRound, currentPhase, pauseRound, tickPaused, adjustRoomTime, adjustStationTime, shouldAutoStart, tickSchedule, roomsForClient, reconnectClient, onClientDisconnect, issueRecoveryCode, claimCentral, transferCentral, setStationLabels, renumberCompactIfWaiting, releaseStation, serialize, assignStation, swapStations, releaseStationSlot, lockStation } from '../src/roomStore.js';
 
 describe('roomStore core', () => {
   let room: ReturnType<typeof createRoom>;
@@ -33,11 +33,11 @@ describe('roomStore core', () => {
     startRound(room);
     room.startedAt = Date.now() - (5 * 1000); // elapsed 5 -> timeLeft=30
     let warned = 0, finished = 0;
-    tick(room, () => warned++, () => finished++);
+    tick(room, { onCue: () => warned++, onTimeUp: () => finished++ });
     expect(warned).toBe(1);
     // next tick not at 30s -> no warn
     room.startedAt = Date.now() - (6 * 1000);
-    tick(room, () => warned++, () => finished++);
+    tick(room, { onCue: () => warned++, onTimeUp: () => finished++ });
     expect(warned).toBe(1);
   });
 
@@ -48,7 +48,7 @@ describe('roomStore core', () => {
     startRound(room);
     room.startedAt = Date.now(); // any tick => no warn
     let warned = 0;
-    tick(room, () => warned++, () => {});
+    tick(room, { onCue: () => warned++, onTimeUp: () => {} });
     expect(warned).toBe(0);
   });
 
@@ -57,14 +57,248 @@ describe('roomStore core', () => {
     claimStation(room, b, 2); setReady(room, b, true);
     startRound(room);
     room.startedAt = Date.now() - (room.roundDurationSec * 1000);
-    tick(room, () => {}, () => resetToWaiting(room));
+    tick(room, { onCue: () => {}, onTimeUp: () => resetToWaiting(room) });
     expect(room.state).toBe('WAITING');
   });
 
   it('update config guard E_STATIONS_IN_USE', () => {
     claimStation(room, a, 1);
     expect(() => updateConfig(room, 1, 60)).not.toThrow();
+    updateConfig(room, 2, 60);
     claimStation(room, b, 2);
-    expect(() => updateConfig(room, 1, 60)).toThrow(); // cannot shrink below claimed
+    expect(() => updateConfig(room, 1, 60)).toThrow('E_STATIONS_IN_USE'); // cannot shrink below claimed
+  });
+
+  it('session: changeover, break, done', () => {
+    updateConfig(room, 2, 65, { session: { rounds: 3, changeoverSec: 10, breakAfterRound: 2, breakSec: 60 } });
+    claimStation(room, a, 1); setReady(room, a, true);
+    claimStation(room, b, 2); setReady(room, b, true);
+    startRound(room);
+    expect(room.currentRound).toBe(1);
+    expect(room.sessionState).toBe('ROUND');
+
+    immediateEnd(room);
+    expect(advanceSession(room)).toBe('CHANGEOVER');
+    expect(inTransition(room)).toBe(true);
+    beginNextRound(room);
+    expect(room.state).toBe('RUNNING');
+    expect(room.currentRound).toBe(2);
+
+    immediateEnd(room);
+    expect(advanceSession(room)).toBe('BREAK');
+    beginNextRound(room);
+    expect(room.currentRound).toBe(3);
+
+    immediateEnd(room);
+    expect(advanceSession(room)).toBe('DONE');
+    resetToWaiting(room);
+    expect(room.state).toBe('WAITING');
+    expect(room.sessionState).toBe('DONE');
+  });
+
+  it('phases: tick tracks phase, pause/resume keeps it', () => {
+    updateConfig(room, 2, 65, { phases: [{ name: 'reading', durationSec: 60 }, { name: 'task', durationSec: 480 }, { name: 'feedback', durationSec: 120 }] });
+    expect(room.roundDurationSec).toBe(660);
+    claimStation(room, a, 1); setReady(room, a, true);
+    claimStation(room, b, 2); setReady(room, b, true);
+    startRound(room);
+    expect(currentPhase(room)?.name).toBe('reading');
+
+    let changed = 0;
+    room.startedAt = Date.now() - 70 * 1000; // 10s into "task"
+    tick(room, { onCue: () => {}, onTimeUp: () => {}, onPhaseChanged: () => changed++ });
+    expect(changed).toBe(1);
+    expect(currentPhase(room)).toMatchObject({ name: 'task', index: 1, timeLeft: 470 });
+
+    stopRound(room);
+    expect(currentPhase(room)).toMatchObject({ name: 'task', timeLeft: 470, endsAt: undefined });
+    resumeRound(room);
+    tick(room, { onCue: () => {}, onTimeUp: () => {}, onPhaseChanged: () => changed++ });
+    expect(changed).toBe(1);
+    expect(currentPhase(room)?.timeLeft).toBe(470);
+  });
+
+  it('cues: late ticks still fire once, custom cues', () => {
+    updateConfig(room, 2, 120, {
+      cues: [
+        { mode: 'elapsed', atSec: 10, label: 'start writing' },
+        { mode: 'remaining', atSec: 30, sound: 'bell' },
+      ],
+    });
+    claimStation(room, a, 1); setReady(room, a, true);
+    claimStation(room, b, 2); setReady(room, b, true);
+    startRound(room);
+    const fired: string[] = [];
+    const handlers = { onCue: (c: { id: string }) => fired.push(c.id), onTimeUp: () => {} };
+
+    room.startedAt = Date.now() - 12 * 1000; // tick at elapsed=10 was missed
+    tick(room, handlers);
+    expect(fired).toEqual(['elapsed-10']);
+
+    room.startedAt = Date.now() - 95 * 1000; // 25s left, 30s threshold skipped
+    tick(room, handlers);
+    stopRound(room);
+    resumeRound(room);
+    tick(room, handlers);
+    expect(fired).toEqual(['elapsed-10', 'remaining-30']);
+  });
+
+  it('PAUSED: transitions, pause accounting, auto-resume', () => {
+    updateConfig(room, 2, 65, { maxPauseSec: 30 });
+    claimStation(room, a, 1); setReady(room, a, true);
+    claimStation(room, b, 2); setReady(room, b, true);
+    startRound(room);
+    expect(() => resumeRound(room)).toThrow(); // not paused
+
+    pauseRound(room);
+    expect(room.state).toBe('PAUSED');
+    expect(() => pauseRound(room)).toThrow();
+
+    let resumed = 0;
+    expect(tickPaused(room, () => resumed++)).toBe(false);
+    room.pausedAt = Date.now() - 31 * 1000;
+    expect(tickPaused(room, () => resumed++)).toBe(true);
+    expect(resumed).toBe(1);
+    expect(room.state).toBe('RUNNING');
+    expect(room.pausedTotalMs).toBeGreaterThanOrEqual(31 * 1000);
+
+    room.startedAt = Date.now() - 65 * 1000;
+    tick(room, { onCue: () => {}, onTimeUp: () => {} });
+    expect(room.state).toBe('ENDED');
+    expect(() => resumeRound(room)).toThrow(); // naturally ended can't resume
+  });
+
+  it('adjust time: room clock and per-station offsets', () => {
+    claimStation(room, a, 1); setReady(room, a, true);
+    claimStation(room, b, 2); setReady(room, b, true);
+    startRound(room);
+    room.startedAt = Date.now() - 50 * 1000; // 15s left
+    adjustRoomTime(room, 20);
+    expect(room.timeLeft).toBe(35);
+
+    adjustStationTime(room, 2, 45);
+    const stationDone: number[] = [];
+    let ended = 0;
+    const handlers = { onCue: () => {}, onTimeUp: () => ended++, onStationTimeUp: (id: number) => stationDone.push(id) };
+
+    room.startedAt = Date.now() - 70 * 1000; // room clock over, station 2 has 40s more
+    tick(room, handlers);
+    expect(stationDone).toEqual([1]);
+    expect(room.state).toBe('RUNNING');
+    expect(ended).toBe(0);
+
+    room.startedAt = Date.now() - 110 * 1000;
+    tick(room, handlers);
+    expect(stationDone).toEqual([1, 2]);
+    expect(ended).toBe(1);
+    expect(room.state).toBe('ENDED');
+  });
+
+  it('start policy: quorum, manual force, scheduled', () => {
+    updateConfig(room, 4, 65, { startPolicy: { mode: 'quorum', percent: 50 } });
+    claimStation(room, a, 1); setReady(room, a, true);
+    expect(shouldAutoStart(room)).toBe(false);
+    claimStation(room, b, 2); setReady(room, b, true);
+    expect(shouldAutoStart(room)).toBe(true);
+
+    updateConfig(room, 4, 65, { startPolicy: { mode: 'manual' } });
+    expect(shouldAutoStart(room)).toBe(false);
+    expect(() => startRound(room)).toThrow();
+    startRound(room, { force: true });
+    expect(room.stations.get(3)?.inactive).toBe(true);
+    expect(room.stations.get(1)?.inactive).toBeUndefined();
+    resetToWaiting(room);
+    expect(room.stations.get(3)?.inactive).toBeUndefined();
+
+    updateConfig(room, 4, 65, { startPolicy: { mode: 'scheduled', startsAt: Date.now() + 5000 } });
+    let started = 0;
+    expect(tickSchedule(room, () => started++, () => {})).toBe(5);
+    room.startPolicy = { mode: 'scheduled', startsAt: Date.now() - 1 };
+    tickSchedule(room, () => started++, () => {});
+    expect(started).toBe(1);
+    expect(room.state).toBe('RUNNING');
+    expect(room.startPolicy).toEqual({ mode: 'scheduled' });
+  });
+
+  it('hello lookup: rooms by central/binding, reconnect marks connected', () => {
+    const hosted = createRoom('hello-central', 2, 65);
+    claimStation(hosted, 'hello-station', 2);
+    onClientDisconnect(hosted, 'hello-station');
+    expect(roomsForClient('hello-central')).toEqual([{ room: hosted, role: 'central', stationId: undefined }]);
+    expect(roomsForClient('hello-station')).toEqual([{ room: hosted, role: 'station', stationId: 2 }]);
+
+    expect(reconnectClient(hosted, 'hello-station')).toBe(true);
+    expect(hosted.stations.get(2)?.connected).toBe(true);
+    expect(reconnectClient(hosted, 'hello-central')).toBe(false);
+  });
+
+  it('central recovery code is one-time, transfer invalidates it', () => {
+    const code = issueRecoveryCode(room);
+    expect(() => claimCentral(room, 'new-device', 'WRONGCODE')).toThrow('E_BAD_RECOVERY_CODE');
+    claimCentral(room, 'new-device', code.toLowerCase());
+    expect(room.centralClientId).toBe('new-device');
+    expect(() => claimCentral(room, 'other', code)).toThrow('E_BAD_RECOVERY_CODE');
+
+    const next = issueRecoveryCode(room);
+    transferCentral(room, central, false);
+    expect(room.centralClientId).toBe(central);
+    expect(room.centralConnected).toBe(false);
+    expect(() => claimCentral(room, 'new-device', next)).toThrow('E_BAD_RECOVERY_CODE');
+  });
+
+  it('station labels follow renumbering and survive tail compaction', () => {
+    updateConfig(room, 4, 65);
+    setStationLabels(room, [
+      { stationId: 3, name: 'Cardio', color: '#f00', meta: { exam: 'OSCE' } },
+      { stationId: 2, name: 'Neuro' },
+    ]);
+    renumberCompactIfWaiting(room, 2);
+    expect(room.stations.get(2)).toMatchObject({ name: 'Cardio', color: '#f00', meta: { exam: 'OSCE' } });
+    expect(room.stations.get(3)?.name).toBeUndefined();
+    expect(serialize(room).stations[1]).toMatchObject({ id: 2, name: 'Cardio' });
+
+    setStationLabels(room, [{ stationId: 2, color: null }]);
+    expect(room.stations.get(2)?.color).toBeUndefined();
+    expect(room.stations.get(2)?.name).toBe('Cardio');
+
+    claimStation(room, a, 3);
+    releaseStation(room, a); // tail compaction stops at the labelled slot
+    expect(room.stationsCount).toBe(2);
+    expect(() => setStationLabels(room, [{ stationId: 9, name: 'x' }])).toThrow('E_INVALID_STATION');
+  });
+
+  it('central seat control keeps bindings consistent', () => {
+    updateConfig(room, 3, 65);
+    claimStation(room, a, 1);
+    expect(assignStation(room, b, 1, true)).toEqual({ displaced: a, previous: undefined });
+    expect(room.bindings.has(a)).toBe(false);
+    expect(assignStation(room, b, 2, true)).toEqual({ displaced: undefined, previous: 1 });
+    expect(room.stations.get(1)?.ownerClientId).toBeUndefined();
+
+    claimStation(room, a, 3);
+    setReady(room, a, true);
+    swapStations(room, 2, 3);
+    expect(room.bindings.get(a)).toBe(2);
+    expect(room.bindings.get(b)).toBe(3);
+    expect(room.stations.get(2)?.ready).toBe(true);
+
+    expect(lockStation(room, 1, true)).toBeUndefined();
+    expect(() => claimStation(room, 'client-c', 1)).toThrow('E_STATION_LOCKED');
+    expect(releaseStationSlot(room, 3)).toBe(b);
+    expect(room.bindings.has(b)).toBe(false);
+    expect(room.stationsCount).toBe(3);
+
+    // the locked rest station doesn't block an 'all' start
+    claimStation(room, b, 3); setReady(room, b, true);
+    startRound(room);
+    expect(room.stations.get(1)?.inactive).toBe(true);
+  });
+
+  it('removing a station drops its binding', () => {
+    claimStation(room, a, 1);
+    claimStation(room, b, 2);
+    renumberCompactIfWaiting(room, 1);
+    expect(room.bindings.has(a)).toBe(false);
+    expect(room.bindings.get(b)).toBe(1);
   });
 });
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { createRoom, claimStation, setReady, startRound, resetToWaiting, setRoster, currentRotation, lockStation } from '../src/roomStore.js';
+import { parseRosterCsv, rotationFor } from '../src/roster.js';
+
+const at = (room: ReturnType<typeof createRoom>, round: number) =>
+  rotationFor(room, round)!.stations.map((s) => s.candidate?.id ?? '-').join(' ');
+
+describe('roster rotation', () => {
+  it('parses CSV with or without a header', () => {
+    expect(parseRosterCsv('name,id,station\n"Doe, Jane",C1,2\nBob,C2,')).toEqual([
+      { id: 'C1', name: 'Doe, Jane', startStation: 2 },
+      { id: 'C2', name: 'Bob' },
+    ]);
+    expect(parseRosterCsv('C1;Ann;1\r\nC2;Ben;\n')).toEqual([
+      { id: 'C1', name: 'Ann', startStation: 1 },
+      { id: 'C2', name: 'Ben' },
+    ]);
+    expect(() => parseRosterCsv('id,station\nC1,zero')).toThrow('E_INVALID_ROSTER');
+  });
+
+  it('rotates one station per round, extra candidates rest', () => {
+    const room = createRoom('central-1', 3, 60);
+    setRoster(room, [{ id: 'A' }, { id: 'B' }, { id: 'C' }, { id: 'D', startStation: 1 }]);
+    // circuit of 4 positions: stations 1-3 + one rest position
+    expect(at(room, 1)).toBe('D A B');
+    expect(rotationFor(room, 1)!.resting.map((c) => c.id)).toEqual(['C']);
+    expect(at(room, 2)).toBe('C D A');
+    expect(at(room, 5)).toBe(at(room, 1));
+
+    lockStation(room, 2, true); // rest station
+    expect(at(room, 1)).toBe('D - B');
+    expect(rotationFor(room, 1)!.resting.map((c) => c.id)).toEqual(['A', 'C']);
+  });
+
+  it('advances with each round and validates the roster', () => {
+    const room = createRoom('central-1', 2, 60);
+    expect(() => setRoster(room, [{ id: 'A' }, { id: 'A' }])).toThrow('E_INVALID_ROSTER');
+    expect(() => setRoster(room, [{ id: 'A', startStation: 3 }])).toThrow('E_INVALID_ROSTER');
+    setRoster(room, [{ id: 'A' }, { id: 'B' }]);
+    expect(currentRotation(room)!.round).toBe(1);
+    claimStation(room, 'client-a', 1); setReady(room, 'client-a', true);
+    claimStation(room, 'client-b', 2); setReady(room, 'client-b', true);
+    startRound(room);
+    expect(currentRotation(room)!.round).toBe(1);
+    expect(() => setRoster(room, [])).toThrow('E_BAD_STATE');
+    resetToWaiting(room);
+    expect(currentRotation(room)!.round).toBe(2);
+    expect(currentRotation(room)!.stations[0].candidate?.id).toBe('B');
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createRoom, claimStation, setReady, startRound, tick } from '../src/roomStore.js';
+import { RoomScheduler, nextFireAt } from '../src/scheduler.js';
+
+describe('room scheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00.000Z'));
+  });
+  afterEach(() => vi.useRealTimers());
+
+  function runningRoom(durationSec: number) {
+    const room = createRoom('central-1', 1, durationSec);
+    claimStation(room, 'client-a', 1);
+    setReady(room, 'client-a', true);
+    startRound(room);
+    return room;
+  }
+
+  it('aligns fires to the round start second', () => {
+    const room = runningRoom(60);
+    room.startedAt = Date.now() - 2300; // 2.3s into the round
+    expect(nextFireAt(room, Date.now())! - room.startedAt).toBe(3005);
+  });
+
+  it('one driver per room, even when synced repeatedly', () => {
+    const room = runningRoom(60);
+    const drive = vi.fn();
+    const scheduler = new RoomScheduler(drive);
+    scheduler.sync(room);
+    scheduler.sync(room);
+    scheduler.sync(room);
+    vi.advanceTimersByTime(3010);
+    expect(drive).toHaveBeenCalledTimes(3);
+    scheduler.stop();
+  });
+
+  it('drops the room once its round is over', () => {
+    const room = runningRoom(10);
+    const drive = vi.fn((r) => tick(r, { onCue: () => {}, onTimeUp: () => {} }));
+    const scheduler = new RoomScheduler(drive);
+    scheduler.sync(room);
+    vi.advanceTimersByTime(15_000);
+    expect(room.state).toBe('ENDED');
+    expect(drive).toHaveBeenCalledTimes(10);
+    expect(scheduler.size).toBe(0);
+  });
+});
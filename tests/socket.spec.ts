@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { Server } from 'socket.io';
+import { io as connect, type Socket as ClientSocket } from 'socket.io-client';
+import { bindSocket } from '../src/socket.js';
+import { resolveClientId, signClientId } from '../src/auth.js';
+import { socketErrors } from '../src/metrics.js';
+import { readAudit } from '../src/audit.js';
+
+describe('socket protocol', () => {
+  let server: http.Server;
+  let io: Server;
+  let url = '';
+  const clients: ClientSocket[] = [];
+
+  beforeAll(async () => {
+    server = http.createServer();
+    io = new Server(server);
+    io.use((socket, next) => {
+      (socket.handshake.auth as Record<string, unknown>).clientId = resolveClientId(socket.handshake);
+      next();
+    });
+    bindSocket(io);
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+  afterAll(async () => {
+    for (const c of clients) c.disconnect();
+    await new Promise((resolve) => io.close(resolve));
+  });
+
+  const client = async (clientId: string) => {
+    const c = connect(url, { transports: ['websocket'], auth: { clientId, clientSig: signClientId(clientId) } });
+    clients.push(c);
+    await new Promise<void>((resolve, reject) => {
+      c.once('connect', resolve);
+      c.once('connect_error', reject);
+    });
+    return c;
+  };
+  const ask = (c: ClientSocket, event: string, payload?: unknown) =>
+    c.timeout(2000).emitWithAck(event, payload) as Promise<any>;
+
+  it('time:sync answers with t0 echoed and server receive/send times', async () => {
+    const c = await client('client-sync');
+    const before = Date.now();
+    const reply = await ask(c, 'time:sync', { t0: 123 });
+    expect(reply).toEqual({ t0: 123, t1: expect.any(Number), t2: expect.any(Number) });
+    expect(reply.t1).toBeGreaterThanOrEqual(before);
+    expect(reply.t2).toBeGreaterThanOrEqual(reply.t1);
+
+    // no ack: the reply comes back as an event
+    const pushed = new Promise<any>((resolve) => c.once('time:sync', resolve));
+    c.emit('time:sync', {});
+    expect(await pushed).toEqual({ t1: expect.any(Number), t2: expect.any(Number) });
+  });
+
+  it('client:hello replies once: ack when given, room:snapshot otherwise', async () => {
+    const c = await client('client-hello');
+    let snapshots = 0;
+    c.on('room:snapshot', () => snapshots++);
+    expect(await ask(c, 'client:hello')).toEqual({ ok: true, rooms: [] });
+    const pushed = new Promise<any>((resolve) => c.once('room:snapshot', resolve));
+    c.emit('client:hello', {});
+    expect(await pushed).toEqual({ ok: true, rooms: [] });
+    expect(snapshots).toBe(1);
+  });
+
+  it('room:subscribeTicks moves a socket in and out of the tick channel', async () => {
+    const central = await client('central-ticks');
+    const station = await client('station-ticks');
+    const created = await ask(central, 'central:createRoom', { stationsCount: 1, roundDurationSec: 60, secondTicks: false });
+    const code = created.room.code as string;
+    const subscribed = async () => (await io.in(`ticks:${code}`).fetchSockets()).length;
+
+    // only sockets already in the room
+    expect((await ask(station, 'room:subscribeTicks', { code, enabled: true })).error.code).toBe('E_BAD_STATE');
+    expect((await ask(station, 'station:join', { roomCode: code, stationId: 1 })).ok).toBe(true);
+
+    expect(await ask(station, 'room:subscribeTicks', { code, enabled: true })).toEqual({ ok: true });
+    expect(await subscribed()).toBe(1);
+
+    // secondTicks off: only the subscriber gets room:tick
+    let centralTicks = 0;
+    central.on('room:tick', () => centralTicks++);
+    const tick = new Promise<any>((resolve) => station.once('room:tick', resolve));
+    expect((await ask(central, 'central:startRound', { code, force: true })).ok).toBe(true);
+    expect(await tick).toMatchObject({ timeLeft: 59, endsAt: expect.any(Number) });
+    expect(centralTicks).toBe(0);
+
+    expect(await ask(station, 'room:subscribeTicks', { code, enabled: false })).toEqual({ ok: true });
+    expect(await subscribed()).toBe(0);
+  });
+
+  it('personal events reach every socket of the client, in the room or not', async () => {
+    const central = await client('central-assign');
+    const tabs = [await client('client-assign'), await client('client-assign')];
+    const created = await ask(central, 'central:createRoom', { stationsCount: 2, roundDurationSec: 60 });
+    const code = created.room.code as string;
+
+    const assigned = tabs.map((t) => new Promise<any>((resolve) => t.once('station:assigned', resolve)));
+    expect(await ask(central, 'central:assignStation', { code, clientId: 'client-assign', stationId: 2 })).toEqual({ ok: true });
+    for (const p of assigned) expect(await p).toMatchObject({ roomCode: code, stationId: 2 });
+  });
+
+  it('central:addWebhook refuses internal addresses', async () => {
+    const central = await client('central-hooks');
+    const code = (await ask(central, 'central:createRoom', { stationsCount: 1, roundDurationSec: 60 })).room.code;
+    const reply = await ask(central, 'central:addWebhook', { code, url: 'http://127.0.0.1:9/hook' });
+    expect(reply).toEqual({ ok: false, error: { code: 'E_WEBHOOK_FORBIDDEN' } });
+  });
+
+  it('counts acks answered with an error by event and code', async () => {
+    const c = await client('client-metrics');
+    const labels = { event: 'central:startRound', code: 'E_ROOM_NOT_FOUND' };
+    const before = socketErrors.get(labels);
+    expect((await ask(c, 'central:startRound', { code: 'NOPE1' })).ok).toBe(false);
+    expect(socketErrors.get(labels)).toBe(before + 1);
+    // zod messages collapse into E_INVALID_PAYLOAD
+    const invalid = { event: 'central:startRound', code: 'E_INVALID_PAYLOAD' };
+    const invalidBefore = socketErrors.get(invalid);
+    await ask(c, 'central:startRound', {});
+    expect(socketErrors.get(invalid)).toBe(invalidBefore + 1);
+  });
+
+  it('failed central:claim attempts are limited per client, not per room', async () => {
+    const central = await client('central-claim');
+    const guesser = await client('client-guesser');
+    const code = (await ask(central, 'central:createRoom', { stationsCount: 1, roundDurationSec: 60 })).room.code;
+    const codes: string[] = [];
+    for (let i = 0; i < 11; i++) {
+      const reply = await ask(guesser, 'central:claim', { code, recoveryCode: 'WRONG-CODE' });
+      codes.push(reply.error.code);
+    }
+    expect(codes.at(-1)).toBe('E_RATE_LIMIT');
+    expect(codes.filter((c) => c === 'E_RATE_LIMIT')).toHaveLength(1);
+    const config = await ask(central, 'central:updateConfig', { code, stationsCount: 2, roundDurationSec: 60 });
+    expect(config).toEqual({ ok: true });
+  });
+
+  it('station:setReady needs a station: no audit line or broadcast otherwise', async () => {
+    const central = await client('central-ready');
+    const stranger = await client('client-stranger');
+    const code = (await ask(central, 'central:createRoom', { stationsCount: 1, roundDurationSec: 60 })).room.code;
+    const before = (await readAudit(code)).length;
+    let updates = 0;
+    central.on('room:updated', () => updates++);
+
+    const reply = await ask(stranger, 'station:setReady', { roomCode: code, ready: true });
+    expect(reply).toEqual({ ok: false, error: { code: 'E_BAD_STATE' } });
+    expect((await readAudit(code)).length).toBe(before);
+    expect(updates).toBe(0);
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createRoom, addWebhook, deleteRoom, onRoomDeleted } from '../src/roomStore.js';
+import { WebhookDispatcher, signWebhook, SIGNATURE_HEADER, TIMESTAMP_HEADER } from '../src/webhooks.js';
+
+// local stand-in: answers with the next queued status (200 once the queue is empty)
+describe('webhooks', () => {
+  let server: http.Server;
+  let url = '';
+  const received: Array<{ headers: http.IncomingHttpHeaders; body: string }> = [];
+  const statuses: number[] = [];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (c) => (body += c));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = statuses.shift() ?? 200;
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+  });
+  afterAll(() => new Promise((resolve) => server.close(resolve)));
+
+  it('signs, filters by event and retries with backoff', async () => {
+    received.length = 0;
+    const room = createRoom('central-1', 2, 60);
+    const hook = addWebhook(room, { url, events: ['round.started'], secret: 'x'.repeat(20) });
+    const webhooks = new WebhookDispatcher({ backoffMs: 1, allowedHosts: ['127.0.0.1'] });
+
+    statuses.push(503, 500);
+    webhooks.emit(room, 'round.paused');
+    webhooks.emit(room, 'round.started', { sessionRound: 1 });
+    await webhooks.idle();
+
+    expect(received).toHaveLength(3);
+    const last = received[2];
+    const ts = Number(last.headers[TIMESTAMP_HEADER]);
+    expect(last.headers[SIGNATURE_HEADER]).toBe(signWebhook(hook.secret, ts, last.body));
+    expect(JSON.parse(last.body)).toMatchObject({ event: 'round.started', roomCode: room.code, data: { sessionRound: 1 } });
+    // same delivery id on every attempt
+    expect(new Set(received.map((r) => JSON.parse(r.body).id)).size).toBe(1);
+
+    expect(webhooks.deliveries(room.code).map((d) => [d.attempt, d.status, d.ok])).toEqual([
+      [1, 503, false],
+      [2, 500, false],
+      [3, 200, true],
+    ]);
+    expect(webhooks.deadLetters(room.code)).toEqual([]);
+  });
+
+  it('dead-letters after the last attempt or a client error', async () => {
+    received.length = 0;
+    const room = createRoom('central-1', 2, 60);
+    const webhooks = new WebhookDispatcher({
+      backoffMs: 1,
+      maxAttempts: 2,
+      global: [{ id: 'global-1', url, secret: 'y'.repeat(20) }],
+    });
+
+    statuses.push(500, 500, 404);
+    webhooks.emit(room, 'round.timeUp');
+    await webhooks.idle();
+    webhooks.emit(room, 'room.deleted');
+    await webhooks.idle();
+
+    expect(received).toHaveLength(3);
+    expect(webhooks.deadLetters(room.code).map((d) => [d.event, d.attempt, d.status])).toEqual([
+      ['round.timeUp', 2, 500],
+      ['room.deleted', 1, 404],
+    ]);
+  });
+
+  it('refuses room hooks on internal addresses unless the host is allowed', async () => {
+    received.length = 0;
+    const webhooks = new WebhookDispatcher({ allowedHosts: ['hooks.internal'] });
+    for (const internal of [
+      'http://127.0.0.1/hook',
+      'http://localhost/hook',
+      'http://[::1]/hook',
+      'http://10.1.2.3/hook',
+      'http://169.254.169.254/latest/meta-data',
+      'http://[::ffff:192.168.0.1]/hook',
+      'http://2130706433/hook', // 127.0.0.1 spelled as a number
+    ]) {
+      await expect(webhooks.checkUrl(internal)).rejects.toThrow('E_WEBHOOK_FORBIDDEN');
+    }
+    await expect(webhooks.checkUrl('https://93.184.216.34/hook')).resolves.toBeUndefined();
+    await expect(webhooks.checkUrl('https://hooks.internal/hook')).resolves.toBeUndefined();
+
+    // delivery checks again: no request, dead-lettered without retries
+    const room = createRoom('central-1', 2, 60);
+    addWebhook(room, { url, secret: 'z'.repeat(20) });
+    webhooks.emit(room, 'round.started');
+    await webhooks.idle();
+    expect(received).toHaveLength(0);
+    expect(webhooks.deadLetters(room.code)).toMatchObject([{ attempt: 1, error: 'blocked: internal address' }]);
+  });
+
+  it('forgets a room\'s deliveries when the room is deleted', async () => {
+    const room = createRoom('central-1', 2, 60);
+    addWebhook(room, { url, secret: 'w'.repeat(20) });
+    const webhooks = new WebhookDispatcher({ backoffMs: 1, maxAttempts: 1, allowedHosts: ['127.0.0.1'] });
+    onRoomDeleted((code) => webhooks.drop(code));
+
+    statuses.push(500);
+    webhooks.emit(room, 'round.started');
+    await webhooks.idle();
+    expect(webhooks.deliveries(room.code)).toHaveLength(1);
+    expect(webhooks.deadLetters(room.code)).toHaveLength(1);
+
+    deleteRoom(room.code);
+    webhooks.emit(room, 'room.deleted');
+    await webhooks.idle();
+    expect(webhooks.deliveries(room.code)).toEqual([]);
+    expect(webhooks.deadLetters(room.code)).toEqual([]);
+  });
+
+  it('does not follow redirects', async () => {
+    received.length = 0;
+    const redirector = http.createServer((_req, res) => {
+      res.writeHead(302, { location: url });
+      res.end();
+    });
+    await new Promise<void>((resolve) => redirector.listen(0, '127.0.0.1', resolve));
+    try {
+      const port = (redirector.address() as AddressInfo).port;
+      const room = createRoom('central-1', 2, 60);
+      addWebhook(room, { url: `http://127.0.0.1:${port}/hook`, secret: 'r'.repeat(20) });
+      const webhooks = new WebhookDispatcher({ backoffMs: 1, allowedHosts: ['127.0.0.1'] });
+      webhooks.emit(room, 'round.started');
+      await webhooks.idle();
+
+      expect(received).toHaveLength(0);
+      expect(webhooks.deadLetters(room.code)).toMatchObject([
+        { attempt: 1, status: 302, ok: false, error: 'redirect not followed' },
+      ]);
+    } finally {
+      await new Promise((resolve) => redirector.close(resolve));
+    }
+  });
+});